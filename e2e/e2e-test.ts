@@ -1,6 +1,7 @@
 // e2e/e2e-test.ts
 
-import { SecureS3Store, SecureS3StoreConfig } from '../src/SecureS3Store.js';
+import { SecureS3Store } from '../src/SecureS3Store.js';
+import { loadConfigFromEnv } from '../src/config.js';
 import { configureLogger } from '../src/logger.js';
 
 const BUCKET = process.env.BUCKET!;
@@ -10,27 +11,7 @@ const logger = configureLogger({
   fileLogLevel: 'info',
 });
 
-const keys: { [kid: string]: string } = {};
-if (process.env.KEY_V1) {
-  keys.v1 = process.env.KEY_V1;
-}
-if (process.env.KEY_V2) {
-  keys.v2 = process.env.KEY_V2;
-}
-
-const config: SecureS3StoreConfig = {
-  keys,
-  primaryKey: process.env.PRIMARY_KEY || 'v1',
-  s3Config: {
-    endpoint: process.env.S3_ENDPOINT,
-    region: process.env.S3_REGION,
-    credentials: {
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-    },
-  },
-  logger,
-};
+const config = { ...loadConfigFromEnv(), logger };
 
 const store = new SecureS3Store(config);
 
@@ -3,10 +3,13 @@ export default {
   preset: 'ts-jest/presets/default-esm',
   testEnvironment: 'node',
   moduleNameMapper: {
-    '^(\.{1,2}/.*)\.js$': '$1',
+    // Strips `.js` from relative imports of the TypeScript sources. The dots
+    // are escaped so that `.cjs` requires, such as zod's
+    // `./v4/classic/external.cjs`, are left alone.
+    '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   transform: {
-    '^.+\.tsx?$': [
+    '^.+\\.tsx?$': [
       'ts-jest',
       {
         useESM: true,
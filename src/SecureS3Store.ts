@@ -1,56 +1,429 @@
 import { Readable } from 'stream';
-import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
-import {
-  S3Client,
-  S3ClientConfig,
-  PutObjectCommand,
-  GetObjectCommand,
-  DeleteObjectCommand,
-  ListObjectsV2Command,
-} from '@aws-sdk/client-s3';
+import { pipeline } from 'stream';
+import { S3ClientConfig } from '@aws-sdk/client-s3';
 import { RequestHandler } from '@aws-sdk/types';
-import winston from 'winston';
-import logger from './logger.js';
+import { z } from 'zod';
+import {
+  ValidationError,
+  SchemaValidationError,
+  S3Error,
+  DecryptionError,
+  TruncatedError,
+  NotFoundError,
+  PreconditionFailedError,
+  NotModifiedError,
+  formatIssues,
+} from './errors.js';
+import {
+  EncryptStream,
+  DecryptStream,
+  EncryptionKey,
+  EncryptOptions,
+  KeyResolver,
+  encryptPayload,
+  decryptedLength,
+} from './stream.js';
+import {
+  parseHeader,
+  ObjectHeader,
+  ParsedHeader,
+  HeaderFlags,
+  cipherName,
+} from './header.js';
+import { Cipher, cipherId } from './cipher.js';
+import { ObjectMetadata, openMetadata } from './metadata.js';
+import {
+  Compression,
+  DecompressStream,
+  compress,
+  compressionId,
+} from './compression.js';
+import { ProgressListener } from './multipart.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { RetryPolicy, RequestOptions } from './retry.js';
+import { StorageBackend, BackendPutOptions } from './storage.js';
+import { S3Backend } from './s3Backend.js';
+import { KeyProvider } from './keyProvider.js';
+import { NameCipher } from './names.js';
+import {
+  AuditContext,
+  AuditEvent,
+  AuditListener,
+  AuditOperation,
+} from './audit.js';
+import { Metrics, Tracer, noopMetrics, noopTracer } from './instrumentation.js';
+import { ReadCache, ReadCacheOptions, CachedObject } from './cache.js';
+import {
+  Logger,
+  Redactor,
+  RedactionOptions,
+  defaultLogger,
+  redactLogger,
+} from './logging.js';
+
+export {
+  ValidationError,
+  SchemaValidationError,
+  S3Error,
+  DecryptionError,
+  TruncatedError,
+  NotFoundError,
+  PreconditionFailedError,
+  NotModifiedError,
+};
 
-// -- Configuration and Error Types --
+// -- Configuration Types --
 
 export interface SecureS3StoreConfig {
-  keys: { [kid: string]: string };
-  primaryKey: string;
-  s3Config: S3ClientConfig;
-  logger?: winston.Logger;
+  keys?: { [kid: string]: string };
+  primaryKey?: string;
+  keyProvider?: KeyProvider;
+  /**
+   * Where the encrypted objects are stored. Defaults to an `S3Backend` built
+   * from `s3Config` and the upload, retry and timeout settings below, which
+   * are ignored when a backend is given.
+   */
+  backend?: StorageBackend;
+  /** The S3 client settings. Required unless `backend` is set. */
+  s3Config?: S3ClientConfig;
+  /**
+   * Where the store logs. Defaults to a console logger that writes errors
+   * only; `createFileLogger` creates one that also writes to files.
+   */
+  logger?: Logger;
+  /**
+   * Mask object paths, metadata fields or patterns before they reach the
+   * logger. Off by default.
+   */
+  redact?: RedactionOptions;
   maxFileSize?: number;
+  /**
+   * The cipher new objects are encrypted with, recorded in each object so that
+   * objects written with any of them can be read. `chacha20-poly1305` is
+   * faster on hosts without AES instructions. `xchacha20-poly1305` uses
+   * 24-byte random nonces, which stay safe for any number of objects under one
+   * key, where the 12-byte nonces of the others should be limited to about
+   * 2^32 objects per key. Defaults to `aes-256-gcm`.
+   */
+  cipher?: Cipher;
+  /**
+   * Compress data written with `put` before encrypting it. `zstd` requires a
+   * Node.js runtime with built-in Zstandard support. Off by default.
+   */
+  compression?: Compression;
+  /** Data smaller than this many bytes is stored uncompressed. Defaults to 1KB. */
+  compressionMinSize?: number;
   requestHandler?: RequestHandler<unknown, unknown, object>;
+  multipartThreshold?: number;
+  partSize?: number;
+  partConcurrency?: number;
+  /**
+   * Accept objects that are not bound to their path, i.e. written by older
+   * versions or by other tools. Enable this only while migrating them with
+   * `rotate`. Defaults to false.
+   */
+  allowUnboundObjects?: boolean;
+  /**
+   * How failed S3 requests are retried. The AWS SDK's own retries are turned
+   * off unless `s3Config.maxAttempts` is set, so that the two do not multiply.
+   */
+  retry?: RetryPolicy;
+  /**
+   * The milliseconds each S3 request may take before it is aborted and
+   * retried. No limit by default.
+   */
+  timeout?: number;
+  /**
+   * The KID of a key in `keys` used to encrypt object keys, so that stored
+   * names do not reveal the plaintext paths. Off by default. Objects written
+   * with and without it cannot be read through the same store, and the key
+   * must not be rotated away while objects use it.
+   */
+  nameKeyId?: string;
+  /**
+   * Receives a structured event for every store operation: what was done to
+   * which path, by whom (from the call's `audit` option), with which key, how
+   * many bytes, how long it took and whether it succeeded. See
+   * `JsonLinesAuditSink` for a ready-made file sink.
+   */
+  onAudit?: AuditListener;
+  /** Receives counters and latency histograms. See `Metrics` for the names. */
+  metrics?: Metrics;
+  /** Starts a span per operation; an OpenTelemetry `Tracer` can be passed as is. */
+  tracer?: Tracer;
+  /**
+   * Keep recently read objects decrypted in memory, so that repeated `get`
+   * calls skip the download and decryption. Writes and deletes through this
+   * store invalidate the cache; changes made elsewhere are picked up once an
+   * entry's `ttl` expires. Off by default.
+   */
+  cache?: ReadCacheOptions;
 }
 
-export class ValidationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ValidationError';
-  }
+export interface PutOptions extends RequestOptions {
+  /** Called as the encrypted payload is uploaded. */
+  onProgress?: ProgressListener;
+  /** The media type of the data, returned by `head`. Stored encrypted. */
+  contentType?: string;
+  /** Application metadata, returned by `head`. Stored encrypted. */
+  metadata?: { [name: string]: string };
+  /**
+   * Writes only if the stored object still has this ETag, as returned by
+   * `get` with `withETag`, `head` or `list`. Use it to compare and swap.
+   */
+  ifMatch?: string;
+  /** With `*`, writes only if no object exists at the path yet. */
+  ifNoneMatch?: '*';
 }
 
-export class S3Error extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'S3Error';
-  }
+/** Preconditions on the object a write replaces, as in `PutOptions`. */
+type WriteConditions = Pick<PutOptions, 'ifMatch' | 'ifNoneMatch'>;
+
+export interface CopyOptions extends RequestOptions, WriteConditions {}
+
+export interface RestoreOptions extends RequestOptions {
+  /**
+   * Restores only if the latest version still has this ETag, so that a write
+   * made since it was read is not replaced.
+   */
+  ifMatch?: string;
 }
 
-export class DecryptionError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'DecryptionError';
-  }
+export interface VersionOptions extends RequestOptions {
+  /**
+   * Addresses this version of the object, as returned by `listVersions`,
+   * instead of the latest one. Requires a bucket with versioning enabled.
+   */
+  versionId?: string;
 }
 
-export class NotFoundError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'NotFoundError';
-  }
+export interface GetOptions extends VersionOptions {
+  /** If true, `get` returns the data together with the object's ETag. */
+  withETag?: boolean;
+}
+
+export interface ETaggedData {
+  data: Buffer;
+  /**
+   * The ETag of the stored, encrypted object, to pass as `ifMatch` when
+   * writing a modified version back.
+   */
+  etag?: string;
+  /** The version that was read, in a bucket with versioning enabled. */
+  versionId?: string;
+}
+
+/** A JSON document read by `getJson` with `withETag`. */
+export interface ETaggedJson<T> extends Omit<ETaggedData, 'data'> {
+  data: T;
+}
+
+export interface PutStreamOptions extends PutOptions {
+  /**
+   * The number of plaintext bytes the stream will produce. When known, the
+   * object is uploaded with a single streaming PutObject if it is below the
+   * `multipartThreshold`; otherwise it is uploaded with a multipart upload.
+   */
+  contentLength?: number;
+}
+
+export interface ListOptions extends RequestOptions {
+  /** If true, lists objects in all subfolders instead of returning folders. */
+  recursive?: boolean;
+  /** The maximum number of S3 keys examined per request, from 1 to 1000. Defaults to 1000. */
+  pageSize?: number;
+}
+
+export interface ListPageOptions extends ListOptions {
+  /** The `cursor` of the previous page. Omit it to start at the beginning. */
+  cursor?: string;
+}
+
+export interface ListEntry {
+  /** The object key without its `.enc` suffix, or the prefix of a folder. */
+  key: string;
+  /** True for a folder (an S3 common prefix) in a non-recursive listing. */
+  isFolder: boolean;
+  /** The size of the stored, encrypted object in bytes. Absent for folders. */
+  size?: number;
+  lastModified?: Date;
+  etag?: string;
+}
+
+export interface ListPage {
+  /** Folders first, then objects. May be shorter than `pageSize`. */
+  entries: ListEntry[];
+  /** Pass as `cursor` to fetch the next page. Absent on the last page. */
+  cursor?: string;
+}
+
+export interface BatchOptions extends RequestOptions {
+  /**
+   * The maximum number of objects processed at once, or for deletes the
+   * maximum number of `DeleteObjects` requests in flight. Defaults to 4.
+   */
+  concurrency?: number;
 }
 
+export interface PutManyItem {
+  path: string;
+  data: Buffer | string;
+  options?: PutOptions;
+}
+
+/** The outcome for one path of a batch operation. */
+export type BatchResult<T = void> =
+  | { path: string; ok: true; value: T }
+  | { path: string; ok: false; error: Error };
+
+export interface DeletePrefixReport {
+  /** Keys that were deleted. */
+  deleted: string[];
+  /** Keys that could not be deleted, with the reason. */
+  failed: { key: string; error: string }[];
+}
+
+export interface RotateOptions {
+  /** If true, report which objects would be migrated without rewriting them. */
+  dryRun?: boolean;
+  /** The maximum number of objects re-encrypted at once. Defaults to 4. */
+  concurrency?: number;
+  /**
+   * Resume after this key (as returned by `list` and `RotateReport.lastKey`),
+   * skipping it and every key that sorts before it.
+   */
+  startAfter?: string;
+  /**
+   * Called after each page of objects is fully processed with the last key of
+   * the page. Persist it and pass it as `startAfter` to resume a rotation.
+   */
+  onCheckpoint?: (lastKey: string) => void | Promise<void>;
+  /** Who is running the rotation, recorded in its audit events. See `onAudit`. */
+  audit?: AuditContext;
+}
+
+export interface RotateReport {
+  dryRun: boolean;
+  /** Keys re-encrypted with the primary key (or that would be, in a dry run). */
+  migrated: string[];
+  /** Keys already encrypted with the primary key and bound to their path. */
+  skipped: string[];
+  /**
+   * Keys that could not be read or rewritten, with the reason, including
+   * objects written again while the rotation was running, which are left as
+   * they are.
+   */
+  failed: { key: string; error: string }[];
+  /** The last key processed, usable as a `startAfter` checkpoint. */
+  lastKey?: string;
+}
+
+export interface VerifyOptions extends RequestOptions {
+  /** The maximum number of objects verified at once. Defaults to 4. */
+  concurrency?: number;
+  /**
+   * Called with the outcome for each object as soon as it is known, so that
+   * results can be reported while a large prefix is still being verified.
+   */
+  onResult?: (result: VerifyResult) => void;
+}
+
+/**
+ * The outcome of verifying one object:
+ * - `ok`: the header is valid, the key is available and every byte authenticates.
+ * - `unknownKey`: the object's key is not in `keys`, or its data key cannot be unwrapped.
+ * - `unbound`: the object is not bound to its path and `allowUnboundObjects` is off.
+ * - `tampered`: the header is invalid or the data fails authentication.
+ * - `truncated`: the object ends before its header, tag or final segment.
+ * - `failed`: the object could not be read, e.g. because of an S3 error.
+ */
+export type VerifyStatus =
+  | 'ok'
+  | 'unknownKey'
+  | 'unbound'
+  | 'tampered'
+  | 'truncated'
+  | 'failed';
+
+export interface VerifyResult {
+  /** The object key without its `.enc` suffix. */
+  key: string;
+  status: VerifyStatus;
+  /** The KID from the header, if it could be read. */
+  kid?: string;
+  /** Why the object did not verify. Absent if `status` is `ok`. */
+  error?: string;
+}
+
+export interface VerifyReport {
+  /** Keys that verified. */
+  ok: string[];
+  unknownKey: { key: string; kid: string; error: string }[];
+  unbound: string[];
+  tampered: { key: string; error: string }[];
+  truncated: { key: string; error: string }[];
+  failed: { key: string; error: string }[];
+  /**
+   * Stored keys under the prefix that the store did not write: those without
+   * the `.enc` suffix, and with `nameKeyId` set, those whose name does not
+   * decrypt.
+   */
+  stragglers: string[];
+}
+
+export interface ObjectVersion {
+  /** The object key without its `.enc` suffix. */
+  key: string;
+  versionId: string;
+  /** True for the current version of the object. */
+  isLatest: boolean;
+  /** True if the version records a deletion. It has no data to read or restore. */
+  isDeleteMarker: boolean;
+  /** The size of the stored, encrypted version in bytes. */
+  size: number;
+  lastModified?: Date;
+  etag?: string;
+}
+
+export interface ObjectInfo {
+  /** The KID the object (or its wrapped data key) was encrypted with. */
+  kid: string;
+  /** The cipher the object was encrypted with. */
+  cipher: Cipher;
+  /** The size of the stored, encrypted object in bytes. */
+  size: number;
+  /** The size of the decrypted data in bytes. */
+  plaintextSize: number;
+  lastModified?: Date;
+  etag?: string;
+  /** The version described, in a bucket with versioning enabled. */
+  versionId?: string;
+  contentType?: string;
+  metadata: { [name: string]: string };
+}
+
+/** The parsed header of a stored object, with the object's S3 attributes. */
+interface StoredHeader extends ParsedHeader {
+  size: number;
+  lastModified?: Date;
+  etag?: string;
+  versionId?: string;
+}
+
+/** The parts of an operation timed separately: encryption and the backend. */
+type Phase = 'crypto' | 'storage';
+
+/** An operation in progress; see `SecureS3Store.startOperation`. */
+interface OperationScope {
+  event: AuditEvent;
+  /** Runs `fn` and adds the time it takes to `phase`. */
+  timed<R>(phase: Phase, fn: () => R): R;
+  finish(error?: unknown): void;
+}
+
+/** The most keys S3 accepts in one `DeleteObjects` request. */
+const maxDeleteKeys = 1000;
+
 // -- SecureS3Store Class --
 
 /**
@@ -58,41 +431,77 @@ export class NotFoundError extends Error {
  * encrypted data from S3-compatible object storage.
  *
  * @remarks
- * Encryption is performed using AES-256-GCM. For each `put` operation, a new
- * 16-byte Initialization Vector (IV) is generated. The final object stored in S3
- * is a concatenation of `[IV (16 bytes)][AuthTag (16 bytes)][Encrypted Data]`.
- * The authentication tag, provided by GCM, ensures data integrity and authenticity.
+ * Encryption is performed using AES-256-GCM by default, or ChaCha20-Poly1305
+ * or XChaCha20-Poly1305 (see `cipher`). For each `put` operation, a new random
+ * nonce is generated: 12 bytes, or 24 for XChaCha20-Poly1305. The final object
+ * stored in S3 is a concatenation of
+ * `[Header][AuthTag (16 bytes)][Encrypted Data]`, where the versioned header
+ * (see `encodeHeader`) records the algorithm, KID, nonce and flags and is
+ * itself authenticated. The authentication tag ensures data integrity and
+ * authenticity. Objects written with 16-byte AES-GCM IVs by older versions
+ * remain readable.
+ *
+ * Objects written with `putStream` use a chunked format (see `EncryptStream`)
+ * so they can be encrypted and decrypted with bounded memory. `get` and
+ * `getStream` read every format, including the legacy
+ * `[KID length][KID][IV][AuthTag][Encrypted Data]` layout.
+ *
+ * When a `keyProvider` is configured the store uses envelope encryption: every
+ * object is encrypted in the chunked format with a random data key, and the
+ * data key, wrapped by the provider, is stored in the object header. The
+ * static `keys` are then only needed to read objects written without it.
+ *
+ * Every object is bound to its `bucket/key` path: the path is authenticated
+ * along with the header, so an object copied or renamed to another path fails
+ * to decrypt. Objects written without the binding are rejected unless
+ * `allowUnboundObjects` is set.
+ *
+ * With `nameKeyId` set, object keys are encrypted too (see `NameCipher`):
+ * callers use plaintext paths and listings return plaintext keys, while the
+ * storage only sees encrypted names. Such objects record the name key's KID
+ * in their header with the `ENCRYPTED_NAME` flag.
  */
 export class SecureS3Store {
-  private readonly s3Client: S3Client;
+  private readonly backend: StorageBackend;
   private readonly keys: Map<string, Buffer>;
-  private readonly primaryKey: string;
-  private readonly algorithm = 'aes-256-gcm';
-  private readonly ivLength = 16;
-  private readonly authTagLength = 16;
-  private readonly logger: winston.Logger;
+  private readonly primaryKey?: string;
+  private readonly keyProvider?: KeyProvider;
+  private readonly logger: Logger;
+  private readonly redactor: Redactor;
   private readonly maxFileSize: number;
+  private readonly cipher: number;
+  private readonly compression?: number;
+  private readonly compressionMinSize: number;
+  private readonly allowUnboundObjects: boolean;
+  private readonly names?: NameCipher;
+  private readonly onAudit?: AuditListener;
+  private readonly metrics: Metrics;
+  private readonly tracer: Tracer;
+  private readonly cache?: ReadCache;
 
   /**
    * Creates an instance of SecureS3Store.
    * @param config - The configuration object for the store.
    */
   constructor(private readonly config: SecureS3StoreConfig) {
-    if (!config.keys || Object.keys(config.keys).length === 0) {
-      throw new ValidationError(
-        'At least one key must be provided in the `keys` configuration.',
-      );
-    }
+    const keys = config.keys || {};
+    if (!config.keyProvider) {
+      if (Object.keys(keys).length === 0) {
+        throw new ValidationError(
+          'At least one key must be provided in the `keys` configuration.',
+        );
+      }
 
-    if (!config.primaryKey || !config.keys[config.primaryKey]) {
-      throw new ValidationError(
-        'The `primaryKey` must be a valid key identifier present in the `keys` configuration.',
-      );
+      if (!config.primaryKey || !keys[config.primaryKey]) {
+        throw new ValidationError(
+          'The `primaryKey` must be a valid key identifier present in the `keys` configuration.',
+        );
+      }
     }
 
     this.keys = new Map();
-    for (const kid in config.keys) {
-      const secretKey = config.keys[kid];
+    for (const kid in keys) {
+      const secretKey = keys[kid];
       if (!/^[0-9a-fA-F]{64}$/.test(secretKey)) {
         throw new ValidationError(
           `Invalid secretKey for KID "${kid}": Must be a 64-character hex string.`,
@@ -102,215 +511,1975 @@ export class SecureS3Store {
     }
 
     this.primaryKey = config.primaryKey;
+    this.keyProvider = config.keyProvider;
 
-    // Initialize S3 Client
-    this.s3Client = new S3Client({
-      ...config.s3Config,
-      requestHandler: config.requestHandler,
-    });
-    this.logger = config.logger || logger;
+    if (config.nameKeyId !== undefined) {
+      const nameKey = this.keys.get(config.nameKeyId);
+      if (!nameKey) {
+        throw new ValidationError(
+          'The `nameKeyId` must be a valid key identifier present in the `keys` configuration.',
+        );
+      }
+      this.names = new NameCipher(config.nameKeyId, nameKey);
+    }
+
+    this.allowUnboundObjects = config.allowUnboundObjects || false;
+    this.onAudit = config.onAudit;
+    this.metrics = config.metrics || noopMetrics;
+    this.tracer = config.tracer || noopTracer;
+    this.cache = config.cache && new ReadCache(config.cache);
+    this.redactor = new Redactor(config.redact);
+    const baseLogger = config.logger || defaultLogger();
+    this.logger = config.redact
+      ? redactLogger(baseLogger, this.redactor)
+      : baseLogger;
+
+    if (config.backend) {
+      this.backend = config.backend;
+    } else if (config.s3Config) {
+      this.backend = new S3Backend({
+        s3Config: config.s3Config,
+        requestHandler: config.requestHandler,
+        logger: this.logger,
+        multipartThreshold: config.multipartThreshold,
+        partSize: config.partSize,
+        partConcurrency: config.partConcurrency,
+        retry: config.retry,
+        timeout: config.timeout,
+        metrics: this.metrics,
+      });
+    } else {
+      throw new ValidationError(
+        'Either `s3Config` or `backend` must be provided.',
+      );
+    }
     this.maxFileSize = config.maxFileSize || 100 * 1024 * 1024; // 100MB default
+    this.cipher = cipherId(config.cipher ?? 'aes-256-gcm');
+    this.compression = config.compression && compressionId(config.compression);
+    this.compressionMinSize = config.compressionMinSize ?? 1024; // 1KB default
     this.logger.info('SecureS3Store initialized.');
   }
 
   /**
    * Encrypts and uploads data to the specified S3 path.
+   * Payloads larger than `multipartThreshold` are sent with a multipart upload.
+   * If `compression` is configured, the data is compressed first unless it is
+   * smaller than `compressionMinSize` or does not get smaller.
    * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
    * @param data - The data to store, as a Buffer or a UTF-8 string.
+   * @param options - Optional upload settings and preconditions.
    * @throws {ValidationError} If the path is invalid or data is empty.
+   * @throws {PreconditionFailedError} If `ifMatch` or `ifNoneMatch` does not hold.
    * @throws {S3Error} If the S3 upload fails.
+   *
+   * @example
+   * ```typescript
+   * // Read, modify and write back, failing if another writer got there first.
+   * const { data, etag } = await store.get(path, { withETag: true });
+   * await store.put(path, update(data), { ifMatch: etag });
+   * ```
    */
-  async put(path: string, data: Buffer | string): Promise<void> {
-    this.logger.info(`Attempting to put object at path: ${path}`);
-    const { bucket, key } = SecureS3Store.parsePath(path);
-    const dataBuffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8');
-
-    this.validateInput(dataBuffer);
-
-    const secretKey = this.keys.get(this.primaryKey)!;
-    const kid = Buffer.from(this.primaryKey, 'utf8');
-    const kidLength = Buffer.from([kid.length]);
-
-    const iv = randomBytes(this.ivLength);
-    const cipher = createCipheriv(this.algorithm, secretKey, iv);
-    const encrypted = Buffer.concat([
-      cipher.update(dataBuffer),
-      cipher.final(),
-    ]);
-    const authTag = cipher.getAuthTag();
-
-    const finalPayload = Buffer.concat([
-      kidLength,
-      kid,
-      iv,
-      authTag,
-      encrypted,
-    ]);
-
-    const command = new PutObjectCommand({
-      Bucket: bucket,
-      Key: `${key}.enc`,
-      Body: finalPayload,
-    });
+  async put(
+    path: string,
+    data: Buffer | string,
+    options: PutOptions = {},
+  ): Promise<void> {
+    return this.instrumented('put', path, options, async (event, timed) => {
+      this.logger.info(
+        `Attempting to put object at path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      const dataBuffer = Buffer.isBuffer(data)
+        ? data
+        : Buffer.from(data, 'utf8');
 
-    try {
-      await this.s3Client.send(command);
-      this.logger.info(`Successfully put object at path: ${path}`);
-    } catch (err) {
-      const error = err as Error;
-      this.logger.error(`S3 PutObject failed for path: ${path}`, { error });
-      throw new S3Error(`S3 PutObject failed: ${error.message}`);
-    }
+      this.validateInput(dataBuffer);
+
+      let plaintext = dataBuffer;
+      let compression: EncryptOptions['compression'];
+      if (
+        this.compression !== undefined &&
+        dataBuffer.length >= this.compressionMinSize
+      ) {
+        const compressed = timed('crypto', () =>
+          compress(dataBuffer, this.compression!),
+        );
+        if (compressed.length < dataBuffer.length) {
+          plaintext = compressed;
+          compression = {
+            algorithm: this.compression,
+            uncompressedLength: dataBuffer.length,
+          };
+        }
+      }
+
+      const encryptionKey = await this.encryptionKey();
+      const finalPayload = timed('crypto', () =>
+        encryptPayload(plaintext, encryptionKey, {
+          path: `${bucket}/${key}`,
+          userMetadata: SecureS3Store.userMetadata(options),
+          compression,
+          nameKid: this.names?.kid,
+          cipher: this.cipher,
+        }),
+      );
+      event.kid = encryptionKey.kid;
+      event.bytes = dataBuffer.length;
+      event.storedBytes = finalPayload.length;
+
+      try {
+        await timed('storage', () =>
+          this.backend.put(
+            bucket,
+            this.storedKey(bucket, key),
+            finalPayload,
+            SecureS3Store.backendPutOptions(options, finalPayload.length),
+          ),
+        );
+        this.logger.info(
+          `Successfully put object at path: ${this.redactor.path(path)}`,
+        );
+      } catch (err) {
+        const error = err as Error;
+        this.logger.error(
+          `S3 PutObject failed for path: ${this.redactor.path(path)}`,
+          { error },
+        );
+        if (error instanceof PreconditionFailedError) {
+          throw new PreconditionFailedError(
+            `Precondition failed for path: ${path}`,
+          );
+        }
+        throw new S3Error(`S3 PutObject failed: ${error.message}`, error);
+      } finally {
+        this.cache?.invalidate(`${bucket}/${key}`);
+      }
+    });
   }
 
   /**
-   * Downloads and decrypts data from the specified S3 path.
+   * Downloads and decrypts data from the specified S3 path. With `cache`
+   * configured, the latest version may be served from memory instead.
    * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
-   * @returns A Promise that resolves with the decrypted data as a Buffer.
+   * @param options - Optional cancellation and timeout settings, the version to read, and `withETag`.
+   * @returns A Promise that resolves with the decrypted data as a Buffer, or
+   * with the data and the object's ETag if `withETag` is set.
    * @throws {NotFoundError} If the object is not found at the specified path.
    * @throws {S3Error} If the S3 download fails.
-   * @throws {DecryptionError} If the data cannot be decrypted (e.g., wrong key or tampered data).
+   * @throws {DecryptionError} If the data cannot be decrypted (e.g., wrong key, tampered data or an object moved from another path).
    */
-  async get(path: string): Promise<Buffer> {
-    this.logger.info(`Attempting to get object from path: ${path}`);
-    const { bucket, key } = SecureS3Store.parsePath(path);
-
-    const command = new GetObjectCommand({
-      Bucket: bucket,
-      Key: `${key}.enc`,
-    });
+  async get(
+    path: string,
+    options: GetOptions & { withETag: true },
+  ): Promise<ETaggedData>;
+  async get(path: string, options?: GetOptions): Promise<Buffer>;
+  async get(
+    path: string,
+    options: GetOptions = {},
+  ): Promise<Buffer | ETaggedData> {
+    return this.instrumented('get', path, options, async (event, timed) => {
+      this.logger.info(
+        `Attempting to get object from path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      this.checkVersioning(options);
 
-    try {
-      const { Body } = await this.s3Client.send(command);
-      if (!Body) {
-        throw new NotFoundError(`Object not found at path: ${path}`);
+      // Only the latest version of an object is cached.
+      const cache = options.versionId === undefined ? this.cache : undefined;
+      const cachePath = `${bucket}/${key}`;
+      const cached = cache?.lookup(cachePath);
+      const serve = (object: CachedObject, result: 'hit' | 'revalidated') => {
+        event.cache = result;
+        event.kid = object.kid;
+        event.bytes = object.data.length;
+        this.logger.info(
+          `Served object from cache for path: ${this.redactor.path(path)}`,
+        );
+        const { data, etag, versionId } = object;
+        return options.withETag ? { data, etag, versionId } : data;
+      };
+      if (cached?.fresh) {
+        return serve(cached.object, 'hit');
       }
-
-      const encryptedData = await this.streamToBuffer(Body as Readable);
-
-      const kidLength = encryptedData[0];
-      const kid = encryptedData.slice(1, 1 + kidLength).toString('utf8');
-      const secretKey = this.keys.get(kid);
-
-      if (!secretKey) {
-        throw new DecryptionError(`No secret key found for KID: ${kid}`);
+      const generation = cache?.generation ?? 0;
+      if (cache) {
+        event.cache = 'miss';
       }
 
-      const ivOffset = 1 + kidLength;
-      const authTagOffset = ivOffset + this.ivLength;
-      const encryptedOffset = authTagOffset + this.authTagLength;
-
-      const iv = encryptedData.slice(ivOffset, authTagOffset);
-      const authTag = encryptedData.slice(authTagOffset, encryptedOffset);
-      const encrypted = encryptedData.slice(encryptedOffset);
-
-      const decipher = createDecipheriv(this.algorithm, secretKey, iv);
-      decipher.setAuthTag(authTag);
-
-      const decrypted = Buffer.concat([
-        decipher.update(encrypted),
-        decipher.final(),
-      ]);
-      this.logger.info(`Successfully got object from path: ${path}`);
-      return decrypted;
-    } catch (err) {
-      const error = err as Error;
-      this.logger.error(`S3 GetObject failed for path: ${path}`, { error });
-      if (error.name === 'NoSuchKey') {
-        throw new NotFoundError(`Object not found at path: ${path}`);
-      }
-      if (error instanceof DecryptionError) {
-        throw error;
+      try {
+        const { encryptedData, etag, versionId } = await timed(
+          'storage',
+          async () => {
+            const object = await this.backend.get(
+              bucket,
+              this.storedKey(bucket, key),
+              { ...options, ifNoneMatch: cached?.object.etag },
+            );
+            return {
+              ...object,
+              encryptedData: await this.streamToBuffer(object.body),
+            };
+          },
+        );
+        event.storedBytes = encryptedData.length;
+        const decrypted = await timed('crypto', () =>
+          this.streamToBuffer(
+            this.decrypt(
+              bucket,
+              key,
+              Readable.from([encryptedData]),
+              () => {},
+              this.auditedKeyResolver(event),
+            ),
+          ),
+        );
+        event.bytes = decrypted.length;
+        if (cache && etag !== undefined) {
+          cache.set(
+            cachePath,
+            { data: decrypted, etag, versionId, kid: event.kid },
+            generation,
+          );
+        }
+        this.logger.info(
+          `Successfully got object from path: ${this.redactor.path(path)}`,
+        );
+        return options.withETag
+          ? { data: decrypted, etag, versionId }
+          : decrypted;
+      } catch (err) {
+        const error = err as Error;
+        if (cached && error instanceof NotModifiedError) {
+          cache!.refresh(cachePath);
+          return serve(cached.object, 'revalidated');
+        }
+        if (cached) {
+          cache!.invalidate(cachePath);
+        }
+        this.logger.error(
+          `S3 GetObject failed for path: ${this.redactor.path(path)}`,
+          { error },
+        );
+        if (error instanceof NotFoundError) {
+          throw new NotFoundError(`Object not found at path: ${path}`);
+        }
+        if (error instanceof DecryptionError) {
+          throw error;
+        }
+        throw new S3Error(`S3 GetObject failed: ${error.message}`, error);
       }
-      throw new S3Error(`S3 GetObject failed: ${error.message}`);
-    }
+    });
   }
 
   /**
-   * Deletes an object from the specified S3 path.
-   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
-   * @throws {S3Error} If the S3 delete operation fails.
+   * Serializes a value as JSON and stores it with `put`, with the content type
+   * `application/json` unless `options.contentType` is set.
+   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/config.json`).
+   * @param value - The document to store.
+   * @param schema - A zod schema the value must match. The value itself is
+   * written, not the schema's output, so `getJson` with the same schema
+   * reads it back.
+   * @param options - Optional upload settings and preconditions.
+   * @throws {SchemaValidationError} If the value does not match `schema`.
+   * @throws {ValidationError} If the path is invalid or the value cannot be serialized.
+   * @throws {PreconditionFailedError} If `ifMatch` or `ifNoneMatch` does not hold.
+   * @throws {S3Error} If the S3 upload fails.
    */
-  async delete(path: string): Promise<void> {
-    this.logger.info(`Attempting to delete object at path: ${path}`);
-    const { bucket, key } = SecureS3Store.parsePath(path);
+  async putJson<S extends z.ZodType>(
+    path: string,
+    value: z.input<S>,
+    schema?: S,
+    options: PutOptions = {},
+  ): Promise<void> {
+    if (schema) {
+      await SecureS3Store.checkSchema(schema, value, `Value for ${path}`);
+    }
+    const json = JSON.stringify(value);
+    if (json === undefined) {
+      throw new ValidationError(
+        `Value for ${path} cannot be serialized as JSON.`,
+      );
+    }
+    await this.put(path, json, { contentType: 'application/json', ...options });
+  }
 
-    const command = new DeleteObjectCommand({
-      Bucket: bucket,
-      Key: `${key}.enc`,
+  /**
+   * Reads a JSON document written by `putJson` (or any UTF-8 JSON object) with
+   * `get`, and validates it against a zod schema.
+   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/config.json`).
+   * @param schema - The zod schema the document must match.
+   * @param options - The options of `get`.
+   * @returns A Promise that resolves with the schema's output for the
+   * document, or with it and the object's ETag if `withETag` is set.
+   * @throws {SchemaValidationError} If the object is not JSON or does not match `schema`.
+   * @throws {NotFoundError} If the object is not found at the specified path.
+   * @throws {S3Error} If the S3 download fails.
+   * @throws {DecryptionError} If the data cannot be decrypted.
+   *
+   * @example
+   * ```typescript
+   * const Config = z.object({ enabled: z.boolean() });
+   * const { data, etag } = await store.getJson(path, Config, { withETag: true });
+   * await store.putJson(path, { ...data, enabled: true }, Config, { ifMatch: etag });
+   * ```
+   */
+  async getJson<S extends z.ZodType>(
+    path: string,
+    schema: S,
+    options: GetOptions & { withETag: true },
+  ): Promise<ETaggedJson<z.output<S>>>;
+  async getJson<S extends z.ZodType>(
+    path: string,
+    schema: S,
+    options?: GetOptions,
+  ): Promise<z.output<S>>;
+  async getJson<S extends z.ZodType>(
+    path: string,
+    schema: S,
+    options: GetOptions = {},
+  ): Promise<z.output<S> | ETaggedJson<z.output<S>>> {
+    const { data, etag, versionId } = await this.get(path, {
+      ...options,
+      withETag: true,
     });
-
+    let document: unknown;
     try {
-      await this.s3Client.send(command);
-      this.logger.info(`Successfully deleted object at path: ${path}`);
+      document = JSON.parse(data.toString('utf8'));
     } catch (err) {
-      const error = err as Error;
-      this.logger.error(`S3 DeleteObject failed for path: ${path}`, { error });
-      throw new S3Error(`S3 DeleteObject failed: ${error.message}`);
+      const message = `Object at ${path} is not valid JSON: ${(err as Error).message}`;
+      throw new SchemaValidationError(message, [
+        { code: 'custom', path: [], message, input: undefined },
+      ]);
     }
+    const parsed = await SecureS3Store.checkSchema(
+      schema,
+      document,
+      `Object at ${path}`,
+    );
+    return options.withETag ? { data: parsed, etag, versionId } : parsed;
   }
 
   /**
-   * Lists the objects within a specified bucket and prefix.
-   * @param path - The S3 path to list, including the bucket and an optional prefix (e.g., `bucket-name/folder/`).
-   * @param offset - The starting offset for the listing.
-   * @param limit - The maximum number of items to return.
-   * @param recursive - If true, lists objects in all subdirectories. If false, only lists immediate children.
-   * @returns A Promise that resolves with an array of object keys.
-   * @throws {S3Error} If the S3 list operation fails.
+   * Encrypts and uploads a stream to the specified S3 path without buffering
+   * the whole payload in memory. The object is not subject to `maxFileSize`.
+   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
+   * @param stream - The plaintext stream to store.
+   * @param options - Optional upload settings and preconditions.
+   * @throws {ValidationError} If the path is invalid.
+   * @throws {PreconditionFailedError} If `ifMatch` or `ifNoneMatch` does not hold.
+   * @throws {S3Error} If the S3 upload or the source stream fails.
    */
-  async list(
+  async putStream(
     path: string,
-    offset = 0,
-    limit = 1000,
-    recursive = false,
-  ): Promise<string[]> {
-    this.logger.info(`Attempting to list objects at path: ${path}`);
-    const { bucket, key: prefix } = SecureS3Store.parsePath(path);
-    const allKeys: string[] = [];
-    let continuationToken: string | undefined;
+    stream: Readable,
+    options: PutStreamOptions = {},
+  ): Promise<void> {
+    return this.instrumented('putStream', path, options, async (event) => {
+      this.logger.info(
+        `Attempting to put stream at path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
 
-    try {
-      do {
-        const command = new ListObjectsV2Command({
-          Bucket: bucket,
-          Prefix: prefix,
-          Delimiter: recursive ? undefined : '/',
-          ContinuationToken: continuationToken,
-        });
-        const response = await this.s3Client.send(command);
+      const encryptionKey = await this.encryptionKey();
+      const encryptor = new EncryptStream(encryptionKey, {
+        path: `${bucket}/${key}`,
+        userMetadata: SecureS3Store.userMetadata(options),
+        nameKid: this.names?.kid,
+        cipher: this.cipher,
+      });
+      const body = pipeline(stream, encryptor, () => undefined);
+
+      const total =
+        options.contentLength === undefined
+          ? undefined
+          : encryptor.encryptedLength(options.contentLength);
+      event.kid = encryptionKey.kid;
+      event.bytes = options.contentLength;
+      event.storedBytes = total;
 
-        if (response.Contents) {
-          const keys = response.Contents.map((obj) => obj.Key || '')
-            .filter((key) => key && key.endsWith('.enc'))
-            .map((key) => key.slice(0, -4));
-          allKeys.push(...keys);
+      try {
+        await this.backend.put(
+          bucket,
+          this.storedKey(bucket, key),
+          body,
+          SecureS3Store.backendPutOptions(options, total),
+        );
+        this.logger.info(
+          `Successfully put stream at path: ${this.redactor.path(path)}`,
+        );
+      } catch (err) {
+        const error = err as Error;
+        body.destroy();
+        this.logger.error(
+          `S3 stream upload failed for path: ${this.redactor.path(path)}`,
+          {
+            error,
+          },
+        );
+        if (error instanceof ValidationError) {
+          throw error;
+        }
+        if (error instanceof PreconditionFailedError) {
+          throw new PreconditionFailedError(
+            `Precondition failed for path: ${path}`,
+          );
         }
-        continuationToken = response.NextContinuationToken;
-      } while (continuationToken);
+        throw new S3Error(`S3 stream upload failed: ${error.message}`, error);
+      } finally {
+        this.cache?.invalidate(`${bucket}/${key}`);
+      }
+    });
+  }
 
-      this.logger.info(
-        `Successfully listed ${allKeys.length} objects at path: ${path}`,
-      );
-      return allKeys.slice(offset, offset + limit);
+  /**
+   * Downloads the object at the specified S3 path and returns a stream of the
+   * decrypted data.
+   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
+   * @param options - Optional cancellation and timeout settings, and the
+   * version to read. The timeout covers the request until the response starts;
+   * aborting the signal later destroys the stream.
+   * @returns A Promise that resolves with a Readable of the decrypted data. The
+   * stream emits a `DecryptionError` if the data cannot be authenticated, and
+   * a `ValidationError` if an object written in one piece exceeds
+   * `maxFileSize`.
+   * @throws {NotFoundError} If the object is not found at the specified path.
+   * @throws {S3Error} If the S3 download fails.
+   *
+   * @remarks
+   * Only authenticated plaintext is emitted. Objects written by `putStream`
+   * are verified one segment at a time. Objects written by `put` carry a
+   * single tag, so their plaintext is buffered until the tag verifies, and
+   * reading one larger than `maxFileSize` fails before it is all in memory.
+   */
+  async getStream(
+    path: string,
+    options: VersionOptions = {},
+  ): Promise<Readable> {
+    this.logger.info(
+      `Attempting to get stream from path: ${this.redactor.path(path)}`,
+    );
+    // The audit event is emitted once the stream ends or fails.
+    const audit = this.startOperation('getStream', path, options);
+    let bucket: string;
+    let key: string;
+    let body: Readable;
+    try {
+      ({ bucket, key } = SecureS3Store.parsePath(path));
+      this.checkVersioning(options);
+      let size: number;
+      ({ body, size } = await this.backend.get(
+        bucket,
+        this.storedKey(bucket, key),
+        options,
+      ));
+      audit.event.storedBytes = size;
     } catch (err) {
+      audit.finish(err);
       const error = err as Error;
-      this.logger.error(`S3 ListObjectsV2 failed for path: ${path}`, { error });
-      throw new S3Error(`S3 ListObjectsV2 failed: ${error.message}`);
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      this.logger.error(
+        `S3 GetObject failed for path: ${this.redactor.path(path)}`,
+        { error },
+      );
+      if (error instanceof NotFoundError) {
+        throw new NotFoundError(`Object not found at path: ${path}`);
+      }
+      throw new S3Error(`S3 GetObject failed: ${error.message}`, error);
     }
-  }
 
-  private validateInput(data: Buffer): void {
-    if (data.length === 0) {
-      throw new ValidationError('Input data cannot be null or empty');
-    }
+    return this.decrypt(
+      bucket,
+      key,
+      body,
+      (err) => {
+        audit.finish(err);
+        if (err) {
+          this.logger.error(
+            `Stream decryption failed for path: ${this.redactor.path(path)}`,
+            {
+              error: err,
+            },
+          );
+        } else {
+          this.logger.info(
+            `Successfully streamed object from path: ${this.redactor.path(path)}`,
+          );
+        }
+      },
+      this.auditedKeyResolver(audit.event),
+    );
+  }
 
-    if (data.length > this.maxFileSize) {
-      throw new ValidationError(
-        `File size of ${data.length} bytes exceeds maximum limit of ${this.maxFileSize} bytes`,
+  /**
+   * Returns the KID, sizes, timestamps and decrypted metadata of an object.
+   * Only the object header is downloaded; the data is not decrypted.
+   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
+   * @param options - Optional cancellation and timeout settings, and the version to describe.
+   * @returns A Promise that resolves with the object information.
+   * @throws {NotFoundError} If the object is not found at the specified path.
+   * @throws {S3Error} If the S3 request fails.
+   * @throws {DecryptionError} If the header or metadata cannot be decrypted.
+   */
+  async head(path: string, options: VersionOptions = {}): Promise<ObjectInfo> {
+    return this.instrumented('head', path, options, async (event) => {
+      this.logger.info(
+        `Attempting to head object at path: ${this.redactor.path(path)}`,
       );
-    }
-  }
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      this.checkVersioning(options);
+
+      try {
+        const { info } = await this.inspect(bucket, key, options);
+        event.kid = info.kid;
+        event.bytes = info.plaintextSize;
+        event.storedBytes = info.size;
+        this.logger.info(
+          `Successfully headed object at path: ${this.redactor.path(path)}`,
+        );
+        return info;
+      } catch (err) {
+        throw this.inspectError(path, err as Error);
+      }
+    });
+  }
+
+  /**
+   * Checks whether an object exists at the specified S3 path.
+   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
+   * @param options - Optional cancellation and timeout settings.
+   * @returns A Promise that resolves with true if the object exists.
+   * @throws {S3Error} If the S3 request fails for any reason other than a missing object.
+   */
+  async exists(path: string, options: RequestOptions = {}): Promise<boolean> {
+    return this.instrumented('exists', path, options, async () => {
+      this.logger.info(
+        `Checking whether object exists at path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+
+      try {
+        await this.backend.head(bucket, this.storedKey(bucket, key), options);
+        return true;
+      } catch (err) {
+        const error = err as Error;
+        if (error instanceof NotFoundError) {
+          return false;
+        }
+        this.logger.error(
+          `S3 HeadObject failed for path: ${this.redactor.path(path)}`,
+          { error },
+        );
+        throw new S3Error(`S3 HeadObject failed: ${error.message}`, error);
+      }
+    });
+  }
+
+  /**
+   * Deletes an object from the specified S3 path. In a bucket with versioning
+   * enabled this adds a delete marker and keeps the earlier versions, unless a
+   * `versionId` is given, which deletes that version permanently.
+   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
+   * @param options - Optional cancellation and timeout settings, and the version to delete.
+   * @throws {S3Error} If the S3 delete operation fails.
+   */
+  async delete(path: string, options: VersionOptions = {}): Promise<void> {
+    return this.instrumented('delete', path, options, async () => {
+      this.logger.info(
+        `Attempting to delete object at path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      this.checkVersioning(options);
+
+      try {
+        await this.backend.delete(bucket, this.storedKey(bucket, key), options);
+        this.logger.info(
+          `Successfully deleted object at path: ${this.redactor.path(path)}`,
+        );
+      } catch (err) {
+        const error = err as Error;
+        this.logger.error(
+          `S3 DeleteObject failed for path: ${this.redactor.path(path)}`,
+          {
+            error,
+          },
+        );
+        throw new S3Error(`S3 DeleteObject failed: ${error.message}`, error);
+      } finally {
+        this.cache?.invalidate(`${bucket}/${key}`);
+      }
+    });
+  }
+
+  /**
+   * Copies an object to another path, in the same or another bucket.
+   *
+   * @remarks
+   * An object bound to its path cannot be copied byte for byte, so it is
+   * decrypted and re-encrypted for `dst` with the current write key, keeping
+   * its content type and metadata. Unbound objects, which are only readable
+   * when `allowUnboundObjects` is set, are copied on the server with
+   * `CopyObject` and stay unbound; `rotate` binds them. `CopyObject` cannot
+   * check the object it replaces, so with `ifMatch` or `ifNoneMatch` unbound
+   * objects are re-encrypted and bound to `dst` as well.
+   * @param src - The full S3 path of the object to copy (e.g., `bucket-name/folder/file.ext`).
+   * @param dst - The full S3 path to copy it to.
+   * @param options - Optional preconditions on the object at `dst`, and
+   * cancellation and timeout settings.
+   * @throws {ValidationError} If a path is invalid, or `src` and `dst` are the same.
+   * @throws {PreconditionFailedError} If `ifMatch` or `ifNoneMatch` is not
+   * met by the object at `dst`.
+   * @throws {NotFoundError} If the object is not found at `src`.
+   * @throws {DecryptionError} If the object cannot be decrypted.
+   * @throws {S3Error} If an S3 request fails.
+   */
+  async copy(
+    src: string,
+    dst: string,
+    options: CopyOptions = {},
+  ): Promise<void> {
+    const { ifMatch, ifNoneMatch, ...request } = options;
+    return this.instrumented('copy', src, request, async (event) => {
+      event.target = dst;
+      this.logger.info(
+        `Attempting to copy object from ${this.redactor.path(src)} to ${this.redactor.path(dst)}`,
+      );
+      const source = SecureS3Store.parsePath(src);
+      const target = SecureS3Store.parsePath(dst);
+      if (source.bucket === target.bucket && source.key === target.key) {
+        throw new ValidationError('Source and destination paths must differ.');
+      }
+
+      let inspected;
+      try {
+        inspected = await this.inspect(source.bucket, source.key, request);
+      } catch (err) {
+        throw this.inspectError(src, err as Error);
+      }
+      const { stored, info } = inspected;
+
+      if (
+        stored.header.flags & HeaderFlags.PATH_BOUND ||
+        ifMatch !== undefined ||
+        ifNoneMatch !== undefined
+      ) {
+        await this.reencrypt(src, dst, stored, info, request, {
+          ifMatch,
+          ifNoneMatch,
+        });
+        this.logger.info(
+          `Successfully re-encrypted ${this.redactor.path(src)} to ${this.redactor.path(dst)}`,
+        );
+        return;
+      }
+
+      try {
+        await this.backend.copy(
+          {
+            bucket: source.bucket,
+            key: this.storedKey(source.bucket, source.key),
+          },
+          {
+            bucket: target.bucket,
+            key: this.storedKey(target.bucket, target.key),
+          },
+          options,
+        );
+        this.logger.info(
+          `Successfully copied ${this.redactor.path(src)} to ${this.redactor.path(dst)} on the server`,
+        );
+      } catch (err) {
+        const error = err as Error;
+        this.logger.error(
+          `S3 CopyObject failed for path: ${this.redactor.path(src)}`,
+          { error },
+        );
+        if (error instanceof NotFoundError) {
+          throw new NotFoundError(`Object not found at path: ${src}`);
+        }
+        throw new S3Error(`S3 CopyObject failed: ${error.message}`, error);
+      } finally {
+        this.cache?.invalidate(`${target.bucket}/${target.key}`);
+      }
+    });
+  }
+
+  /**
+   * Moves an object to another path, in the same or another bucket, by copying
+   * it with `copy` and then deleting the source.
+   * @param src - The full S3 path of the object to move (e.g., `bucket-name/folder/file.ext`).
+   * @param dst - The full S3 path to move it to.
+   * @param options - Optional cancellation and timeout settings.
+   * @throws {ValidationError} If a path is invalid, or `src` and `dst` are the same.
+   * @throws {NotFoundError} If the object is not found at `src`.
+   * @throws {DecryptionError} If the object cannot be decrypted.
+   * @throws {S3Error} If an S3 request fails. If only the delete fails, the
+   * object exists at both paths.
+   */
+  async move(
+    src: string,
+    dst: string,
+    options: RequestOptions = {},
+  ): Promise<void> {
+    await this.copy(src, dst, options);
+    await this.delete(src, options);
+  }
+
+  /**
+   * Lists the versions of an object, or of every object under a prefix,
+   * including delete markers.
+   * @param path - The full S3 path of an object (e.g., `bucket-name/folder/file.ext`), or a prefix ending with `/` (e.g., `bucket-name/folder/`).
+   * @param options - Optional cancellation and timeout settings.
+   * @returns A Promise that resolves with the versions, by key and then newest first.
+   * @throws {ValidationError} If the storage backend does not keep versions.
+   * @throws {S3Error} If the S3 list operation fails.
+   *
+   * @example
+   * ```typescript
+   * const [, previous] = await store.listVersions('my-bucket/config.json');
+   * await store.restoreVersion('my-bucket/config.json', previous.versionId);
+   * ```
+   */
+  async listVersions(
+    path: string,
+    options: RequestOptions = {},
+  ): Promise<ObjectVersion[]> {
+    return this.instrumented('listVersions', path, options, async (event) => {
+      this.logger.info(
+        `Attempting to list versions at path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      const listVersions = this.backend.listVersions?.bind(this.backend);
+      if (!listVersions) {
+        throw new ValidationError(
+          'The storage backend does not keep versions.',
+        );
+      }
+      const prefix = key.endsWith('/')
+        ? this.storedPrefix(bucket, key)
+        : this.storedKey(bucket, key);
+
+      const versions: ObjectVersion[] = [];
+      let cursor: string | undefined;
+      do {
+        let page;
+        try {
+          page = await listVersions(bucket, { ...options, prefix, cursor });
+        } catch (err) {
+          const error = err as Error;
+          this.logger.error(
+            `S3 ListObjectVersions failed for path: ${this.redactor.path(path)}`,
+            {
+              error,
+            },
+          );
+          throw new S3Error(
+            `S3 ListObjectVersions failed: ${error.message}`,
+            error,
+          );
+        }
+        for (const version of page.versions) {
+          const plainKey = this.plainKey(bucket, version.key);
+          if (
+            plainKey !== undefined &&
+            (key.endsWith('/') || version.key === prefix)
+          ) {
+            versions.push({ ...version, key: plainKey });
+          }
+        }
+        cursor = page.cursor;
+      } while (cursor);
+
+      event.count = versions.length;
+      return versions;
+    });
+  }
+
+  /**
+   * Makes an earlier version of an object the latest one again. The version is
+   * decrypted with the key recorded in it and written as a new version with
+   * the current write key, keeping its content type and metadata; the versions
+   * in between are kept.
+   * @param path - The full S3 path, including bucket and key (e.g., `bucket-name/folder/file.ext`).
+   * @param versionId - The version to restore, as returned by `listVersions`.
+   * @param options - An optional `ifMatch` for the latest version, and
+   * cancellation and timeout settings.
+   * @throws {ValidationError} If the storage backend does not keep versions.
+   * @throws {NotFoundError} If the version does not exist.
+   * @throws {PreconditionFailedError} If the latest version no longer has the
+   * ETag given as `ifMatch`.
+   * @throws {DecryptionError} If the version cannot be decrypted.
+   * @throws {S3Error} If an S3 request fails.
+   */
+  async restoreVersion(
+    path: string,
+    versionId: string,
+    options: RestoreOptions = {},
+  ): Promise<void> {
+    const { ifMatch, ...rest } = options;
+    return this.instrumented(
+      'restoreVersion',
+      path,
+      { ...rest, versionId },
+      async () => {
+        this.logger.info(
+          `Attempting to restore version ${versionId} of ${this.redactor.path(path)}`,
+        );
+        const { bucket, key } = SecureS3Store.parsePath(path);
+        const request = { ...rest, versionId };
+        this.checkVersioning(request);
+
+        let inspected;
+        try {
+          inspected = await this.inspect(bucket, key, request);
+        } catch (err) {
+          throw this.inspectError(path, err as Error);
+        }
+        await this.reencrypt(
+          path,
+          path,
+          inspected.stored,
+          inspected.info,
+          request,
+          { ifMatch },
+        );
+        this.logger.info(
+          `Successfully restored version ${versionId} of ${this.redactor.path(path)}`,
+        );
+      },
+    );
+  }
+
+  /**
+   * Lists one page of objects and folders within a specified bucket and
+   * prefix, with one S3 request.
+   * @param path - The S3 path to list, including the bucket and an optional prefix (e.g., `bucket-name/folder/`).
+   * @param options - The cursor, page size and recursion settings.
+   * @returns A Promise that resolves with the entries and the cursor of the next page.
+   * @throws {ValidationError} If the page size is out of range, or names are
+   * encrypted and the prefix does not end with `/`.
+   * @throws {S3Error} If the S3 list operation fails.
+   */
+  async listPage(
+    path: string,
+    options: ListPageOptions = {},
+  ): Promise<ListPage> {
+    return this.instrumented('list', path, options, async (event) => {
+      this.logger.info(
+        `Attempting to list a page of objects at path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      const {
+        cursor,
+        pageSize = 1000,
+        recursive = false,
+        signal,
+        timeout,
+      } = options;
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 1000) {
+        throw new ValidationError(
+          'The `pageSize` must be an integer from 1 to 1000.',
+        );
+      }
+      const prefix = this.storedPrefix(bucket, key);
+
+      let page;
+      try {
+        page = await this.backend.list(bucket, {
+          prefix,
+          delimiter: recursive ? undefined : '/',
+          cursor,
+          pageSize,
+          signal,
+          timeout,
+        });
+      } catch (err) {
+        const error = err as Error;
+        this.logger.error(
+          `S3 ListObjectsV2 failed for path: ${this.redactor.path(path)}`,
+          {
+            error,
+          },
+        );
+        throw new S3Error(`S3 ListObjectsV2 failed: ${error.message}`, error);
+      }
+
+      const folders: ListEntry[] = [];
+      for (const folder of page.prefixes) {
+        const plainFolder = this.plainName(bucket, folder);
+        if (plainFolder !== undefined) {
+          folders.push({ key: plainFolder, isFolder: true });
+        }
+      }
+      const objects: ListEntry[] = [];
+      for (const obj of page.objects) {
+        const plainKey = this.plainKey(bucket, obj.key);
+        if (plainKey !== undefined) {
+          objects.push({
+            key: plainKey,
+            isFolder: false,
+            size: obj.size,
+            lastModified: obj.lastModified,
+            etag: obj.etag,
+          });
+        }
+      }
+
+      event.count = folders.length + objects.length;
+      return {
+        entries: [...folders, ...objects],
+        cursor: page.cursor,
+      };
+    });
+  }
+
+  /**
+   * Iterates over every object and folder within a specified bucket and
+   * prefix, fetching one page at a time as the iteration proceeds.
+   * @param path - The S3 path to list, including the bucket and an optional prefix (e.g., `bucket-name/folder/`).
+   * @param options - The page size and recursion settings.
+   * @throws {S3Error} If an S3 list operation fails.
+   *
+   * @example
+   * ```typescript
+   * for await (const entry of store.listIterator('my-bucket/logs/')) {
+   *   console.log(entry.isFolder ? `${entry.key} (folder)` : entry.key);
+   * }
+   * ```
+   */
+  async *listIterator(
+    path: string,
+    options: ListOptions = {},
+  ): AsyncGenerator<ListEntry> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.listPage(path, { ...options, cursor });
+      yield* page.entries;
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  /**
+   * Lists the objects within a specified bucket and prefix. Folders are not
+   * included; use `listPage` or `listIterator` for folders and object details.
+   * @param path - The S3 path to list, including the bucket and an optional prefix (e.g., `bucket-name/folder/`).
+   * @param offset - The starting offset for the listing.
+   * @param limit - The maximum number of items to return.
+   * @param recursive - If true, lists objects in all subdirectories. If false, only lists immediate children.
+   * @param options - Optional cancellation and timeout settings.
+   * @returns A Promise that resolves with an array of object keys.
+   * @throws {S3Error} If the S3 list operation fails.
+   */
+  async list(
+    path: string,
+    offset = 0,
+    limit = 1000,
+    recursive = false,
+    options: RequestOptions = {},
+  ): Promise<string[]> {
+    this.logger.info(
+      `Attempting to list objects at path: ${this.redactor.path(path)}`,
+    );
+    const keys: string[] = [];
+
+    // Stop fetching pages once the requested window is filled.
+    for await (const entry of this.listIterator(path, {
+      ...options,
+      recursive,
+    })) {
+      if (!entry.isFolder) {
+        keys.push(entry.key);
+      }
+      if (keys.length >= offset + limit) {
+        break;
+      }
+    }
+
+    this.logger.info(
+      `Successfully listed ${keys.length} objects at path: ${this.redactor.path(path)}`,
+    );
+    return keys.slice(offset, offset + limit);
+  }
+
+  /**
+   * Encrypts and uploads many objects, at most `concurrency` at a time. A
+   * failure is recorded in that item's result and does not stop the batch.
+   * @param items - The paths, data and put options of the objects.
+   * @param options - Optional batch settings.
+   * @returns A Promise that resolves with one result per item, in order.
+   */
+  async putMany(
+    items: PutManyItem[],
+    options: BatchOptions = {},
+  ): Promise<BatchResult[]> {
+    const { concurrency = 4, signal, timeout, audit } = options;
+    return mapWithConcurrency(items, concurrency, (item) =>
+      SecureS3Store.settle(item.path, () =>
+        this.put(item.path, item.data, {
+          signal,
+          timeout,
+          audit,
+          ...item.options,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Downloads and decrypts many objects, at most `concurrency` at a time. A
+   * failure is recorded in that path's result and does not stop the batch.
+   * @param paths - The full S3 paths of the objects.
+   * @param options - Optional batch settings.
+   * @returns A Promise that resolves with one result per path, in order.
+   */
+  async getMany(
+    paths: string[],
+    options: BatchOptions = {},
+  ): Promise<BatchResult<Buffer>[]> {
+    const { concurrency = 4, signal, timeout, audit } = options;
+    return mapWithConcurrency(paths, concurrency, (path) =>
+      SecureS3Store.settle(path, () =>
+        this.get(path, { signal, timeout, audit }),
+      ),
+    );
+  }
+
+  /**
+   * Deletes many objects with `DeleteObjects` requests of up to 1000 keys
+   * each. A failure is recorded in that path's result and does not stop the
+   * batch.
+   * @param paths - The full S3 paths of the objects, in any buckets.
+   * @param options - Optional batch settings.
+   * @returns A Promise that resolves with one result per path, in order.
+   */
+  async deleteMany(
+    paths: string[],
+    options: BatchOptions = {},
+  ): Promise<BatchResult[]> {
+    this.logger.info(`Attempting to delete ${paths.length} objects`);
+    const { concurrency = 4, signal, timeout, audit } = options;
+    const results = new Array<BatchResult>(paths.length);
+    const buckets = new Map<string, { key: string; index: number }[]>();
+
+    paths.forEach((path, index) => {
+      try {
+        const { bucket, key } = SecureS3Store.parsePath(path);
+        const items = buckets.get(bucket) || [];
+        items.push({ key, index });
+        buckets.set(bucket, items);
+      } catch (err) {
+        results[index] = { path, ok: false, error: err as Error };
+      }
+    });
+
+    const requests = [...buckets].flatMap(([bucket, items]) =>
+      Array.from(
+        { length: Math.ceil(items.length / maxDeleteKeys) },
+        (_, i) => ({
+          bucket,
+          items: items.slice(i * maxDeleteKeys, (i + 1) * maxDeleteKeys),
+        }),
+      ),
+    );
+
+    await mapWithConcurrency(requests, concurrency, async (request) => {
+      const failures = await this.deleteObjects(
+        request.bucket,
+        request.items.map((item) => item.key),
+        { signal, timeout, audit },
+      );
+      for (const { key, index } of request.items) {
+        const error = failures.get(key);
+        results[index] = error
+          ? { path: paths[index], ok: false, error }
+          : { path: paths[index], ok: true, value: undefined };
+      }
+    });
+
+    this.logger.info(`Finished deleting ${paths.length} objects`);
+    return results;
+  }
+
+  /**
+   * Deletes every `.enc` object under a folder, including subfolders.
+   * @param path - The S3 path, including the bucket and a folder ending with `/` (e.g., `bucket-name/folder/`).
+   * @param options - Optional batch settings.
+   * @returns A Promise that resolves with the deleted and failed keys.
+   * @throws {ValidationError} If the prefix does not end with `/`, so that
+   * `folder` cannot delete `folder-archive/` as well.
+   * @throws {S3Error} If an S3 list operation fails.
+   */
+  async deletePrefix(
+    path: string,
+    options: BatchOptions = {},
+  ): Promise<DeletePrefixReport> {
+    return this.instrumented('deletePrefix', path, options, async (event) => {
+      this.logger.info(
+        `Attempting to delete objects under path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      if (!key.endsWith('/')) {
+        throw new ValidationError(
+          'The prefix to delete must be a folder ending with `/`.',
+        );
+      }
+      const { concurrency = 4, signal, timeout, audit } = options;
+      const report: DeletePrefixReport = { deleted: [], failed: [] };
+      let keys: string[] = [];
+
+      const flush = async () => {
+        const chunks: string[][] = [];
+        for (let i = 0; i < keys.length; i += maxDeleteKeys) {
+          chunks.push(keys.slice(i, i + maxDeleteKeys));
+        }
+        keys = [];
+        await mapWithConcurrency(chunks, concurrency, async (chunk) => {
+          const failures = await this.deleteObjects(bucket, chunk, {
+            signal,
+            timeout,
+            audit,
+          });
+          for (const key of chunk) {
+            const error = failures.get(key);
+            if (error) {
+              report.failed.push({ key, error: error.message });
+            } else {
+              report.deleted.push(key);
+            }
+          }
+        });
+      };
+
+      for await (const entry of this.listIterator(path, {
+        recursive: true,
+        signal,
+        timeout,
+        audit,
+      })) {
+        keys.push(entry.key);
+        if (keys.length >= maxDeleteKeys * concurrency) {
+          await flush();
+        }
+      }
+      await flush();
+
+      this.logger.info(
+        `Deletion under ${this.redactor.path(path)} finished: ${report.deleted.length} deleted, ${report.failed.length} failed`,
+      );
+      event.count = report.deleted.length;
+      return report;
+    });
+  }
+
+  /**
+   * Sends one `DeleteObjects` request and returns the errors by key. Never
+   * throws: if the request itself fails, every key is reported with its error.
+   * Emits a `delete` audit event per key.
+   */
+  private async deleteObjects(
+    bucket: string,
+    keys: string[],
+    options: RequestOptions,
+  ): Promise<Map<string, Error>> {
+    const audits = keys.map((key) =>
+      this.startOperation('delete', `${bucket}/${key}`, options),
+    );
+    const failures = await this.sendDeleteObjects(bucket, keys, options);
+    for (const key of keys) {
+      this.cache?.invalidate(`${bucket}/${key}`);
+    }
+    keys.forEach((key, index) => audits[index].finish(failures.get(key)));
+    return failures;
+  }
+
+  private async sendDeleteObjects(
+    bucket: string,
+    keys: string[],
+    options: RequestOptions,
+  ): Promise<Map<string, Error>> {
+    const failures = new Map<string, Error>();
+    const plainKeys = new Map(
+      keys.map((key) => [this.storedKey(bucket, key), key]),
+    );
+    try {
+      const errors = await this.backend.deleteMany(
+        bucket,
+        [...plainKeys.keys()],
+        options,
+      );
+      for (const [storedKey, error] of errors) {
+        const key = plainKeys.get(storedKey) ?? storedKey;
+        failures.set(
+          key,
+          new S3Error(
+            `S3 DeleteObjects failed for ${key}: ${error.message}`,
+            error,
+          ),
+        );
+      }
+    } catch (err) {
+      const error = err as Error;
+      this.logger.error(`S3 DeleteObjects failed in bucket: ${bucket}`, {
+        error,
+      });
+      const failure = new S3Error(
+        `S3 DeleteObjects failed: ${error.message}`,
+        error,
+      );
+      for (const key of keys) {
+        failures.set(key, failure);
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Re-encrypts every object under a prefix that was written with a key other
+   * than the `primaryKey` (or the key provider's `primaryKeyId`), with a cipher
+   * other than `cipher`, or that is not bound to its path, so that old keys
+   * can be retired.
+   *
+   * @remarks
+   * Only the header of each object is downloaded to find its KID. Objects are
+   * processed one listing page at a time; `onCheckpoint` is called once a page
+   * is complete so an interrupted rotation can be resumed with `startAfter`.
+   * A failure to migrate one object is recorded in the report and does not stop
+   * the rotation.
+   * @param path - The S3 path to rotate, including the bucket and a prefix (e.g., `bucket-name/folder/`).
+   * @param options - Optional rotation settings.
+   * @returns A Promise that resolves with a report of migrated, skipped and failed keys.
+   * @throws {S3Error} If the S3 list operation fails.
+   */
+  async rotate(
+    path: string,
+    options: RotateOptions = {},
+  ): Promise<RotateReport> {
+    return this.instrumented('rotate', path, options, async (event) => {
+      this.logger.info(
+        `Attempting to rotate objects at path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      const prefix = this.storedPrefix(bucket, key);
+      const { dryRun = false, concurrency = 4 } = options;
+      const report: RotateReport = {
+        dryRun,
+        migrated: [],
+        skipped: [],
+        failed: [],
+      };
+      let cursor: string | undefined;
+
+      do {
+        let page;
+        try {
+          page = await this.backend.list(bucket, {
+            prefix,
+            cursor,
+            startAfter:
+              options.startAfter === undefined
+                ? undefined
+                : this.storedKey(bucket, options.startAfter),
+          });
+        } catch (err) {
+          const error = err as Error;
+          this.logger.error(
+            `S3 ListObjectsV2 failed for path: ${this.redactor.path(path)}`,
+            {
+              error,
+            },
+          );
+          throw new S3Error(`S3 ListObjectsV2 failed: ${error.message}`, error);
+        }
+
+        const keys = page.objects
+          .map((obj) => this.plainKey(bucket, obj.key))
+          .filter((key) => key !== undefined);
+
+        await mapWithConcurrency(keys, concurrency, (key) =>
+          this.rotateObject(bucket, key, dryRun, report, options.audit),
+        );
+
+        if (keys.length > 0) {
+          report.lastKey = keys[keys.length - 1];
+          await options.onCheckpoint?.(report.lastKey);
+        }
+        cursor = page.cursor;
+      } while (cursor);
+
+      this.logger.info(
+        `Rotation of ${this.redactor.path(path)} finished: ${report.migrated.length} migrated, ${report.skipped.length} skipped, ${report.failed.length} failed`,
+      );
+      event.count = report.migrated.length;
+      return report;
+    });
+  }
+
+  private async rotateObject(
+    bucket: string,
+    key: string,
+    dryRun: boolean,
+    report: RotateReport,
+    audit?: AuditContext,
+  ): Promise<void> {
+    const path = `${bucket}/${key}`;
+    try {
+      const { stored, info } = await this.inspect(bucket, key);
+      const { kid, flags, algorithm } = stored.header;
+      const envelope = !!(flags & HeaderFlags.ENVELOPE);
+      const bound = !!(flags & HeaderFlags.PATH_BOUND);
+      if (
+        bound &&
+        envelope === !!this.keyProvider &&
+        kid === this.writeKeyId() &&
+        algorithm === this.cipher
+      ) {
+        report.skipped.push(key);
+        return;
+      }
+      if (!envelope && !this.keys.has(kid)) {
+        throw new DecryptionError(`No secret key found for KID: ${kid}`);
+      }
+
+      if (!dryRun) {
+        // Rewrite only the object that was inspected, not a newer one
+        // written in the meantime.
+        await this.reencrypt(
+          path,
+          path,
+          stored,
+          info,
+          { audit },
+          {
+            ifMatch: stored.etag,
+          },
+        );
+      }
+      report.migrated.push(key);
+    } catch (err) {
+      const error = err as Error;
+      this.logger.error(
+        `Rotation failed for path: ${this.redactor.path(path)}`,
+        { error },
+      );
+      report.failed.push({ key, error: error.message });
+    }
+  }
+
+  /**
+   * Checks every object under a prefix without returning its data: that the
+   * header is valid, that the object's key is available, and that the whole
+   * object authenticates.
+   *
+   * @remarks
+   * Each object is streamed through decryption and the plaintext discarded, so
+   * memory use does not depend on object size. Keys without the `.enc` suffix,
+   * or whose encrypted name does not decrypt, are reported as stragglers by
+   * their stored key; folder markers (keys ending in `/`) are
+   * ignored. A failure to verify one object is recorded in the report and does
+   * not stop the walk.
+   * @param path - The S3 path to verify, including the bucket and a prefix (e.g., `bucket-name/folder/`).
+   * @param options - Optional concurrency, result callback, cancellation and timeout settings.
+   * @returns A Promise that resolves with a report of the objects by outcome.
+   * @throws {S3Error} If the S3 list operation fails.
+   *
+   * @example
+   * ```typescript
+   * const report = await store.verify('my-bucket/backups/');
+   * if (report.tampered.length > 0 || report.truncated.length > 0) {
+   *   console.error('Damaged objects:', report.tampered, report.truncated);
+   * }
+   * ```
+   */
+  async verify(
+    path: string,
+    options: VerifyOptions = {},
+  ): Promise<VerifyReport> {
+    return this.instrumented('verify', path, options, async (event) => {
+      this.logger.info(
+        `Attempting to verify objects at path: ${this.redactor.path(path)}`,
+      );
+      const { bucket, key } = SecureS3Store.parsePath(path);
+      const prefix = this.storedPrefix(bucket, key);
+      const { concurrency = 4, onResult, signal, timeout } = options;
+      const report: VerifyReport = {
+        ok: [],
+        unknownKey: [],
+        unbound: [],
+        tampered: [],
+        truncated: [],
+        failed: [],
+        stragglers: [],
+      };
+      let cursor: string | undefined;
+
+      do {
+        let page;
+        try {
+          page = await this.backend.list(bucket, {
+            prefix,
+            cursor,
+            signal,
+            timeout,
+          });
+        } catch (err) {
+          const error = err as Error;
+          this.logger.error(
+            `S3 ListObjectsV2 failed for path: ${this.redactor.path(path)}`,
+            {
+              error,
+            },
+          );
+          throw new S3Error(`S3 ListObjectsV2 failed: ${error.message}`, error);
+        }
+
+        const keys: string[] = [];
+        for (const obj of page.objects) {
+          const plainKey = this.plainKey(bucket, obj.key);
+          if (plainKey !== undefined) {
+            keys.push(plainKey);
+          } else if (!obj.key.endsWith('/')) {
+            report.stragglers.push(obj.key);
+          }
+        }
+
+        event.count = (event.count ?? 0) + keys.length;
+        await mapWithConcurrency(keys, concurrency, async (key) => {
+          const result = await this.verifyObject(bucket, key, {
+            signal,
+            timeout,
+          });
+          const { status, kid, error = '' } = result;
+          if (status === 'ok') {
+            report.ok.push(key);
+          } else if (status === 'unknownKey') {
+            report.unknownKey.push({ key, kid: kid!, error });
+          } else if (status === 'unbound') {
+            report.unbound.push(key);
+          } else {
+            report[status].push({ key, error });
+          }
+          onResult?.(result);
+        });
+        cursor = page.cursor;
+      } while (cursor);
+
+      this.logger.info(
+        `Verification of ${this.redactor.path(path)} finished: ${report.ok.length} ok, ${report.unknownKey.length} with unknown keys, ${report.unbound.length} unbound, ${report.tampered.length} tampered, ${report.truncated.length} truncated, ${report.failed.length} failed, ${report.stragglers.length} stragglers`,
+      );
+      return report;
+    });
+  }
+
+  /**
+   * Drops every object from the read cache, e.g. after another process has
+   * written objects this store may have cached. Does nothing without `cache`.
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  private async verifyObject(
+    bucket: string,
+    key: string,
+    options: RequestOptions,
+  ): Promise<VerifyResult> {
+    const path = `${bucket}/${key}`;
+    let kid: string | undefined;
+    try {
+      const { header } = await this.readHeader(bucket, key, options);
+      kid = header.kid;
+      if (
+        !(header.flags & HeaderFlags.PATH_BOUND) &&
+        !this.allowUnboundObjects
+      ) {
+        return {
+          key,
+          status: 'unbound',
+          kid,
+          error: `Object at ${path} is not bound to its path and unbound objects are not allowed.`,
+        };
+      }
+
+      let objectKey: Buffer | undefined;
+      try {
+        objectKey = await this.resolveKey(kid, header.wrappedKey);
+      } catch (err) {
+        return {
+          key,
+          status: 'unknownKey',
+          kid,
+          error: (err as Error).message,
+        };
+      }
+      if (!objectKey) {
+        return {
+          key,
+          status: 'unknownKey',
+          kid,
+          error: `No secret key found for KID: ${kid}`,
+        };
+      }
+
+      const { body } = await this.backend.get(
+        bucket,
+        this.storedKey(bucket, key),
+        options,
+      );
+      const plaintext = this.decrypt(
+        bucket,
+        key,
+        body,
+        () => {},
+        async () => objectKey,
+      );
+      for await (const chunk of plaintext) {
+        void chunk;
+      }
+      return { key, status: 'ok', kid };
+    } catch (err) {
+      const error = err as Error;
+      this.logger.error(
+        `Verification failed for path: ${this.redactor.path(path)}`,
+        { error },
+      );
+      const status: VerifyStatus =
+        error instanceof TruncatedError
+          ? 'truncated'
+          : error instanceof DecryptionError
+            ? 'tampered'
+            : 'failed';
+      return { key, status, kid, error: error.message };
+    }
+  }
+
+  /**
+   * Reads the header of an object and decrypts its user metadata, enforcing
+   * `allowUnboundObjects`.
+   */
+  private async inspect(
+    bucket: string,
+    key: string,
+    options: VersionOptions = {},
+  ): Promise<{ stored: StoredHeader; info: ObjectInfo }> {
+    const boundPath = `${bucket}/${key}`;
+    const stored = await this.readHeader(bucket, key, options);
+    const { header } = stored;
+    const bound = !!(header.flags & HeaderFlags.PATH_BOUND);
+    if (!bound && !this.allowUnboundObjects) {
+      throw new DecryptionError(
+        `Object at ${boundPath} is not bound to its path and unbound objects are not allowed.`,
+      );
+    }
+
+    let userMetadata: ObjectMetadata = {};
+    if (header.userMetadata) {
+      const objectKey = await this.resolveKey(header.kid, header.wrappedKey);
+      if (!objectKey) {
+        throw new DecryptionError(`No secret key found for KID: ${header.kid}`);
+      }
+      userMetadata = openMetadata(
+        objectKey,
+        header.userMetadata,
+        bound ? boundPath : undefined,
+      );
+    }
+
+    return {
+      stored,
+      info: {
+        kid: header.kid,
+        cipher: cipherName(header.algorithm),
+        size: stored.size,
+        plaintextSize: decryptedLength(stored, stored.size),
+        lastModified: stored.lastModified,
+        etag: stored.etag,
+        versionId: stored.versionId,
+        contentType: userMetadata.contentType,
+        metadata: userMetadata.metadata || {},
+      },
+    };
+  }
+
+  /** Logs a failure of `inspect` and maps it to the error `head` throws. */
+  private inspectError(path: string, error: Error): Error {
+    this.logger.error(`Head failed for path: ${this.redactor.path(path)}`, {
+      error,
+    });
+    if (error.name === 'NoSuchKey' || error instanceof NotFoundError) {
+      return new NotFoundError(`Object not found at path: ${path}`);
+    }
+    if (error instanceof DecryptionError) {
+      return error;
+    }
+    return new S3Error(`S3 GetObject failed: ${error.message}`, error);
+  }
+
+  /**
+   * Decrypts the object at `src`, or the version of it given in `request`, and
+   * encrypts it to `dst` with the current write key, keeping its user
+   * metadata. Chunked objects are streamed. `conditions` apply to the object
+   * the write replaces at `dst`. The source is read from the storage, never
+   * from the cache, so it cannot write back data older than `stored`.
+   */
+  private async reencrypt(
+    src: string,
+    dst: string,
+    stored: StoredHeader,
+    info: ObjectInfo,
+    request: VersionOptions = {},
+    conditions: WriteConditions = {},
+  ): Promise<void> {
+    const { signal, timeout, audit } = request;
+    const options: PutOptions = stored.header.userMetadata
+      ? {
+          signal,
+          timeout,
+          audit,
+          ...conditions,
+          contentType: info.contentType,
+          metadata: info.metadata,
+        }
+      : { signal, timeout, audit, ...conditions };
+    if (stored.header.flags & HeaderFlags.CHUNKED) {
+      await this.putStream(dst, await this.getStream(src, request), {
+        ...options,
+        contentLength: info.plaintextSize,
+      });
+    } else {
+      // A cached entry may predate another writer's update, which this write
+      // would then undo.
+      const { bucket, key } = SecureS3Store.parsePath(src);
+      this.cache?.invalidate(`${bucket}/${key}`);
+      await this.put(dst, await this.get(src, request), options);
+    }
+  }
+
+  /**
+   * Downloads only the leading bytes of an object and parses its header,
+   * widening the range if the header is longer than the first request.
+   */
+  private async readHeader(
+    bucket: string,
+    key: string,
+    options: VersionOptions = {},
+  ): Promise<StoredHeader> {
+    for (let length = 4096; ; length *= 16) {
+      const object = await this.backend.get(
+        bucket,
+        this.storedKey(bucket, key),
+        {
+          ...options,
+          range: { start: 0, end: length - 1 },
+        },
+      );
+      const data = await this.streamToBuffer(object.body);
+      const parsed = parseHeader(data);
+      if (parsed) {
+        return {
+          ...parsed,
+          size: object.size || data.length,
+          lastModified: object.lastModified,
+          etag: object.etag,
+          versionId: object.versionId,
+        };
+      }
+      if (data.length < length) {
+        throw new TruncatedError(
+          'Encrypted payload is truncated: incomplete header.',
+        );
+      }
+    }
+  }
+
+  /** The key an object is stored under: its key, encrypted if `nameKeyId` is set, plus `.enc`. */
+  private storedKey(bucket: string, key: string): string {
+    return `${this.names ? this.names.encrypt(bucket, key) : key}.enc`;
+  }
+
+  /**
+   * The stored form of a listing prefix. With encrypted names only whole
+   * folders can be listed, so the prefix must be empty or end with `/`.
+   */
+  private storedPrefix(bucket: string, prefix: string): string {
+    if (!this.names) {
+      return prefix;
+    }
+    if (prefix && !prefix.endsWith('/')) {
+      throw new ValidationError(
+        'With encrypted names, a prefix must be a folder ending with `/`.',
+      );
+    }
+    return this.names.encrypt(bucket, prefix);
+  }
+
+  /**
+   * The plaintext key of a stored key, or `undefined` if the store did not
+   * write it: it lacks the `.enc` suffix or its name does not decrypt.
+   */
+  private plainKey(bucket: string, storedKey: string): string | undefined {
+    return storedKey.endsWith('.enc')
+      ? this.plainName(bucket, storedKey.slice(0, -4))
+      : undefined;
+  }
+
+  /** Decrypts a stored key or folder prefix, or `undefined` if it does not decrypt. */
+  private plainName(bucket: string, name: string): string | undefined {
+    if (!this.names) {
+      return name;
+    }
+    try {
+      return this.names.decrypt(bucket, name);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Runs one store operation, emitting its audit event, metrics and span. `fn`
+   * fills in what it learns about the object, such as its KID and size, and
+   * may time its phases with `timed`.
+   */
+  private async instrumented<T>(
+    operation: AuditOperation,
+    path: string,
+    options: VersionOptions,
+    fn: (event: AuditEvent, timed: OperationScope['timed']) => Promise<T>,
+  ): Promise<T> {
+    const scope = this.startOperation(operation, path, options);
+    try {
+      const result = await fn(scope.event, scope.timed);
+      scope.finish();
+      return result;
+    } catch (err) {
+      scope.finish(err);
+      throw err;
+    }
+  }
+
+  /** Starts the audit event and span of an operation; `finish` ends both. */
+  private startOperation(
+    operation: AuditOperation,
+    path: string,
+    options: VersionOptions,
+  ): OperationScope {
+    const started = performance.now();
+    const event = {
+      time: new Date().toISOString(),
+      operation,
+      path,
+      ...options.audit,
+      versionId: options.versionId,
+    } as AuditEvent;
+    const span = this.tracer.startSpan(`s3store.${operation}`, {
+      attributes: { 's3store.operation': operation },
+    });
+    const phases = new Map<Phase, number>();
+
+    const timed = <R>(phase: Phase, fn: () => R): R => {
+      const start = performance.now();
+      const done = () =>
+        phases.set(phase, (phases.get(phase) ?? 0) + performance.now() - start);
+      const result = fn();
+      if (result instanceof Promise) {
+        return result.finally(done) as R;
+      }
+      done();
+      return result;
+    };
+
+    const finish = (error?: unknown) => {
+      event.durationMs = Math.round(performance.now() - started);
+      event.outcome = error ? 'failure' : 'success';
+      if (error) {
+        event.error = (error as Error).name || 'Error';
+      }
+      this.emitAudit(event);
+      this.recordMetrics(event, phases);
+
+      const { kid, bytes, storedBytes, count } = event;
+      const attributes = {
+        's3store.outcome': event.outcome,
+        's3store.kid': kid,
+        's3store.bytes': bytes,
+        's3store.stored_bytes': storedBytes,
+        's3store.count': count,
+        's3store.cache': event.cache,
+      };
+      for (const [name, value] of Object.entries(attributes)) {
+        if (value !== undefined) {
+          span.setAttribute(name, value);
+        }
+      }
+      for (const [phase, ms] of phases) {
+        span.setAttribute(`s3store.${phase}_ms`, Math.round(ms));
+      }
+      if (error) {
+        span.recordException(error as Error);
+        span.setStatus({ code: 2, message: (error as Error).message });
+      } else {
+        span.setStatus({ code: 1 });
+      }
+      span.end();
+    };
+    return { event, timed, finish };
+  }
+
+  private recordMetrics(event: AuditEvent, phases: Map<Phase, number>): void {
+    const { operation, outcome, error, bytes } = event;
+    this.metrics.increment('s3store.operations', 1, {
+      operation,
+      outcome,
+      error,
+    });
+    this.metrics.record('s3store.operation.duration', event.durationMs, {
+      operation,
+      outcome,
+    });
+    for (const [phase, ms] of phases) {
+      this.metrics.record('s3store.phase.duration', ms, { operation, phase });
+    }
+    if (event.cache === 'miss') {
+      this.metrics.increment('s3store.cache.misses', 1, { operation });
+    } else if (event.cache) {
+      this.metrics.increment('s3store.cache.hits', 1, {
+        operation,
+        revalidated: event.cache === 'revalidated',
+      });
+    }
+    if (outcome === 'success' && bytes !== undefined) {
+      if (operation === 'put' || operation === 'putStream') {
+        this.metrics.increment('s3store.bytes.in', bytes, { operation });
+      } else if (operation === 'get' || operation === 'getStream') {
+        this.metrics.increment('s3store.bytes.out', bytes, { operation });
+      }
+    }
+  }
+
+  private emitAudit(event: AuditEvent): void {
+    if (!this.onAudit) {
+      return;
+    }
+    const failed = (error: unknown) =>
+      this.logger.error(`Audit listener failed for ${event.operation}`, {
+        error,
+      });
+    try {
+      Promise.resolve(this.onAudit(event)).catch(failed);
+    } catch (err) {
+      failed(err);
+    }
+  }
+
+  /** Wraps `resolveKey` to record the KID of the object in its audit event. */
+  private auditedKeyResolver(event: AuditEvent): KeyResolver {
+    return (kid, wrappedKey) => {
+      event.kid = kid;
+      return this.resolveKey(kid, wrappedKey);
+    };
+  }
+
+  /** Refuses a `versionId` if the backend does not keep versions. */
+  private checkVersioning(options: VersionOptions): void {
+    if (options.versionId !== undefined && !this.backend.listVersions) {
+      throw new ValidationError('The storage backend does not keep versions.');
+    }
+  }
+
+  private validateInput(data: Buffer): void {
+    if (data.length === 0) {
+      throw new ValidationError('Input data cannot be null or empty');
+    }
+
+    if (data.length > this.maxFileSize) {
+      throw new ValidationError(
+        `File size of ${data.length} bytes exceeds maximum limit of ${this.maxFileSize} bytes`,
+      );
+    }
+  }
+
+  /** The KID that new objects are written with. */
+  private writeKeyId(): string {
+    return this.keyProvider ? this.keyProvider.primaryKeyId : this.primaryKey!;
+  }
+
+  /**
+   * Returns the key for a new object: the primary key, or a fresh data key
+   * from the key provider.
+   */
+  private async encryptionKey(): Promise<EncryptionKey> {
+    if (!this.keyProvider) {
+      const primaryKey = this.primaryKey!;
+      return { kid: primaryKey, key: this.keys.get(primaryKey)! };
+    }
+
+    const { keyId, dataKey, wrappedKey } =
+      await this.keyProvider.generateDataKey();
+    return { kid: keyId, key: dataKey, wrappedKey };
+  }
+
+  /**
+   * Returns the key an object was encrypted with: a static key, or the data
+   * key unwrapped by the key provider.
+   */
+  private async resolveKey(
+    kid: string,
+    wrappedKey?: Buffer,
+  ): Promise<Buffer | undefined> {
+    if (!wrappedKey) {
+      return this.keys.get(kid);
+    }
+    if (!this.keyProvider) {
+      throw new DecryptionError(
+        `Object uses envelope encryption with ${kid} but no keyProvider is configured.`,
+      );
+    }
+    return this.keyProvider.unwrapDataKey(kid, wrappedKey);
+  }
+
+  /**
+   * Pipes an encrypted payload through decryption and, if the header says the
+   * data was compressed, decompression, both limited to `maxFileSize`: a
+   * payload encrypted in one piece is held in memory until its tag verifies.
+   * @param resolveKey - Looks up the object's key. Defaults to `resolveKey`.
+   */
+  private decrypt(
+    bucket: string,
+    key: string,
+    source: Readable,
+    callback: (err: NodeJS.ErrnoException | null) => void,
+    resolveKey: KeyResolver = (kid, wrappedKey) =>
+      this.resolveKey(kid, wrappedKey),
+  ): Readable {
+    const decryptor = new DecryptStream(resolveKey, {
+      path: `${bucket}/${key}`,
+      allowUnbound: this.allowUnboundObjects,
+      maxBufferedSize: this.maxFileSize,
+    });
+    const decompressor = new DecompressStream(this.maxFileSize);
+    decryptor.once('header', (header: ObjectHeader) => {
+      if (header.compression !== undefined) {
+        decompressor.start(header.compression, header.uncompressedLength!);
+      }
+    });
+    return pipeline(source, decryptor, decompressor, callback);
+  }
+
+  /** Picks the settings of a store call that the backend's `put` takes. */
+  private static backendPutOptions(
+    options: PutOptions,
+    contentLength?: number,
+  ): BackendPutOptions {
+    const { onProgress, signal, timeout, ifMatch, ifNoneMatch } = options;
+    return {
+      contentLength,
+      onProgress,
+      signal,
+      timeout,
+      ifMatch,
+      ifNoneMatch,
+    };
+  }
 
   private async streamToBuffer(stream: Readable): Promise<Buffer> {
     return new Promise((resolve, reject) => {
@@ -321,6 +2490,47 @@ export class SecureS3Store {
     });
   }
 
+  /** Runs one item of a batch, capturing a failure in its result. */
+  private static async settle<T>(
+    path: string,
+    fn: () => Promise<T>,
+  ): Promise<BatchResult<T>> {
+    try {
+      return { path, ok: true, value: await fn() };
+    } catch (err) {
+      return { path, ok: false, error: err as Error };
+    }
+  }
+
+  /**
+   * Parses a document with a schema.
+   * @param subject - What the document is, to start the error message with.
+   * @throws {SchemaValidationError} With the schema's issues, if it does not match.
+   */
+  private static async checkSchema<S extends z.ZodType>(
+    schema: S,
+    document: unknown,
+    subject: string,
+  ): Promise<z.output<S>> {
+    const result = await schema.safeParseAsync(document);
+    if (result.success) {
+      return result.data;
+    }
+    const { issues } = result.error;
+    throw new SchemaValidationError(
+      `${subject} does not match the schema: ${formatIssues(issues)}`,
+      issues,
+    );
+  }
+
+  private static userMetadata(options: PutOptions): ObjectMetadata | undefined {
+    const { contentType, metadata } = options;
+    if (contentType === undefined && metadata === undefined) {
+      return undefined;
+    }
+    return { contentType, metadata };
+  }
+
   static parsePath(path: string): { bucket: string; key: string } {
     if (!path || typeof path !== 'string') {
       throw new ValidationError('Path must be a non-empty string.');
@@ -0,0 +1,267 @@
+// src/audit.ts
+import fs from 'fs';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { createHash } from 'crypto';
+import { ValidationError } from './errors.js';
+
+/** The store operations that emit audit events. */
+export type AuditOperation =
+  | 'put'
+  | 'get'
+  | 'putStream'
+  | 'getStream'
+  | 'head'
+  | 'exists'
+  | 'delete'
+  | 'copy'
+  | 'list'
+  | 'listVersions'
+  | 'restoreVersion'
+  | 'deletePrefix'
+  | 'rotate'
+  | 'verify';
+
+/** Who made a call and why, as supplied by the caller. */
+export interface AuditContext {
+  /** The user or service on whose behalf the call is made. */
+  actor?: string;
+  /** Free-form details such as a request or ticket id. */
+  context?: { [name: string]: string };
+}
+
+/** One store operation, as recorded for auditing. */
+export interface AuditEvent extends AuditContext {
+  /** When the operation started, as an ISO 8601 timestamp. */
+  time: string;
+  operation: AuditOperation;
+  /** The `bucket/key` path or prefix the operation was called with. */
+  path: string;
+  /** The destination path of a `copy`. */
+  target?: string;
+  /** The version read, described, deleted or restored. */
+  versionId?: string;
+  /** The KID of the key the object was written or read with, once known. */
+  kid?: string;
+  /** The plaintext bytes written or read, when known. */
+  bytes?: number;
+  /** The encrypted bytes stored or downloaded, when known. */
+  storedBytes?: number;
+  /** The number of entries listed, or objects deleted, rotated or verified. */
+  count?: number;
+  /**
+   * For a `get` through a read cache: whether it was served from the cache
+   * (`hit`), served after the storage confirmed the cached copy unchanged
+   * (`revalidated`), or read from the storage (`miss`).
+   */
+  cache?: 'hit' | 'revalidated' | 'miss';
+  durationMs: number;
+  outcome: 'success' | 'failure';
+  /** The class name of the error that failed the operation, e.g. `NotFoundError`. */
+  error?: string;
+}
+
+/**
+ * Receives the audit event of every store operation. A returned promise is
+ * not awaited; if it rejects, or the listener throws, the failure is logged
+ * and the operation is unaffected.
+ */
+export type AuditListener = (event: AuditEvent) => void | Promise<void>;
+
+/** An audit event as written by a chaining `JsonLinesAuditSink`. */
+export interface ChainedAuditEvent extends AuditEvent {
+  /** The `hash` of the previous line, or 64 zeros for the first line. */
+  prevHash: string;
+  /** The SHA-256 of this line's JSON without the `hash` field, in hex. */
+  hash: string;
+}
+
+export interface JsonLinesAuditSinkOptions {
+  /** The file to append to. Created if it does not exist. */
+  path?: string;
+  /** The stream to write to instead of a file. It is not closed by `close`. */
+  stream?: Writable;
+  /**
+   * Link each line to the one before it with a SHA-256 hash, so that editing,
+   * inserting or removing a line is detected by `verifyAuditLog`. When
+   * appending to an existing file, the chain continues from its last line.
+   * Defaults to false.
+   */
+  chain?: boolean;
+}
+
+/** The result of `verifyAuditLog`. */
+export interface AuditLogReport {
+  /** True if every line is intact and linked to the one before it. */
+  valid: boolean;
+  /** The number of lines checked. */
+  records: number;
+  /**
+   * The hash of the last intact line. Keep it outside the log to detect lines
+   * removed from the end, which the chain alone cannot reveal.
+   */
+  lastHash?: string;
+  /** Where the chain first breaks, counting lines from 1. */
+  error?: { line: number; message: string };
+}
+
+const genesisHash = '0'.repeat(64);
+const tailLength = 64 * 1024;
+
+/**
+ * Writes audit events as JSON lines, to a file or a stream.
+ *
+ * @remarks
+ * A stream error, such as a file that cannot be opened or a full disk, does
+ * not crash the process. The sink keeps the first one, and every later
+ * `write` throws it and `close` rejects with it.
+ *
+ * @example
+ * ```typescript
+ * const sink = new JsonLinesAuditSink({ path: 'audit.jsonl', chain: true });
+ * const store = new SecureS3Store({ ...config, onAudit: (e) => sink.write(e) });
+ * ```
+ */
+export class JsonLinesAuditSink {
+  private readonly stream: Writable;
+  private readonly ownsStream: boolean;
+  private readonly chain: boolean;
+  private lastHash?: string;
+  private failure?: Error;
+
+  constructor(options: JsonLinesAuditSinkOptions) {
+    if (options.stream) {
+      this.stream = options.stream;
+      this.ownsStream = false;
+    } else if (options.path) {
+      this.stream = fs.createWriteStream(options.path, { flags: 'a' });
+      this.ownsStream = true;
+    } else {
+      throw new ValidationError('Either `path` or `stream` must be provided.');
+    }
+    this.stream.on('error', (err: Error) => {
+      this.failure ??= err;
+    });
+    this.chain = options.chain || false;
+    if (this.chain && options.path && !options.stream) {
+      this.lastHash = lastRecordHash(options.path);
+    }
+  }
+
+  /**
+   * Appends one event. Lines are written in the order of the calls.
+   * @throws The stream's error, if it failed earlier.
+   */
+  write(event: AuditEvent): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+    if (!this.chain) {
+      this.stream.write(`${JSON.stringify(event)}\n`);
+      return;
+    }
+    const record = { ...event, prevHash: this.lastHash ?? genesisHash };
+    const hash = sha256(JSON.stringify(record));
+    this.lastHash = hash;
+    this.stream.write(`${JSON.stringify({ ...record, hash })}\n`);
+  }
+
+  /**
+   * Flushes the pending lines and closes the file, if the sink opened it.
+   * @throws The stream's error, if it failed, so that lost lines are noticed.
+   */
+  async close(): Promise<void> {
+    if (this.ownsStream && !this.failure) {
+      await new Promise<void>((resolve) => {
+        this.stream.once('error', () => resolve());
+        this.stream.end(resolve);
+      });
+    }
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+}
+
+/**
+ * Checks the hash chain of an audit log written by a chaining
+ * `JsonLinesAuditSink`: that every line hashes to its `hash` and names the
+ * hash of the line before it.
+ * @param path - The audit log file.
+ * @returns A Promise that resolves with the report; a broken chain does not reject.
+ */
+export async function verifyAuditLog(path: string): Promise<AuditLogReport> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(path),
+    crlfDelay: Infinity,
+  });
+  let prevHash = genesisHash;
+  let records = 0;
+
+  for await (const line of lines) {
+    if (!line) {
+      continue;
+    }
+    const broken = (message: string): AuditLogReport => {
+      lines.close();
+      return {
+        valid: false,
+        records,
+        lastHash: records > 0 ? prevHash : undefined,
+        error: { line: records + 1, message },
+      };
+    };
+
+    let record: Partial<ChainedAuditEvent>;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return broken('Line is not valid JSON.');
+    }
+    const { hash, ...rest } = record;
+    if (rest.prevHash !== prevHash) {
+      return broken('Line does not follow the previous line.');
+    }
+    if (hash !== sha256(JSON.stringify(rest))) {
+      return broken('Line does not match its hash.');
+    }
+    prevHash = hash;
+    records++;
+  }
+
+  return {
+    valid: true,
+    records,
+    lastHash: records > 0 ? prevHash : undefined,
+  };
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+/** Reads the `hash` of the last line of an existing log, if any. */
+function lastRecordHash(path: string): string | undefined {
+  let fd: number;
+  try {
+    fd = fs.openSync(path, 'r');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw err;
+  }
+  try {
+    const { size } = fs.fstatSync(fd);
+    const length = Math.min(size, tailLength);
+    const tail = Buffer.alloc(length);
+    fs.readSync(fd, tail, 0, length, size - length);
+    const last = tail.toString('utf8').trimEnd().split('\n').pop();
+    if (!last) {
+      return undefined;
+    }
+    return (JSON.parse(last) as Partial<ChainedAuditEvent>).hash;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+// src/bin.ts
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import { SecureS3Store } from './SecureS3Store.js';
+import {
+  ExitCode,
+  CliIO,
+  exitCodeFor,
+  configFromEnv,
+  createCliLogger,
+  putCommand,
+  getCommand,
+  lsCommand,
+  rmCommand,
+  rotateCommand,
+  verifyCommand,
+  keygenCommand,
+} from './cli.js';
+
+const io: CliIO = {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+};
+
+/** A command line that yargs could not parse. */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+let verbose = false;
+let allowUnbound = false;
+let exitCode: number = ExitCode.OK;
+
+function createStore(): SecureS3Store {
+  return new SecureS3Store({
+    ...configFromEnv(process.env, createCliLogger(verbose)),
+    allowUnboundObjects: allowUnbound,
+  });
+}
+
+const cli = yargs(hideBin(process.argv))
+  .scriptName('secure-s3-store')
+  .usage(
+    '$0 <command> [options]\n\nKeys and S3 settings are read from KEY_<KID>, PRIMARY_KEY, NAME_KEY_ID, S3_ENDPOINT, S3_REGION, S3_FORCE_PATH_STYLE, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY.',
+  )
+  .option('verbose', {
+    alias: 'v',
+    type: 'boolean',
+    default: false,
+    describe: 'Log progress to stderr',
+  })
+  .option('allow-unbound', {
+    type: 'boolean',
+    default: false,
+    describe: 'Accept objects that are not bound to their path',
+  })
+  .middleware((argv) => {
+    verbose = argv.verbose;
+    allowUnbound = argv.allowUnbound;
+  })
+  .command(
+    'put <path> [file]',
+    'Encrypt a file, or stdin, to bucket/key',
+    (y) =>
+      y
+        .positional('path', { type: 'string', demandOption: true })
+        .positional('file', { type: 'string', describe: 'Defaults to stdin' }),
+    (argv) => putCommand(createStore(), argv.path, argv.file, io),
+  )
+  .command(
+    'get <path> [file]',
+    'Decrypt bucket/key to a file, or stdout',
+    (y) =>
+      y
+        .positional('path', { type: 'string', demandOption: true })
+        .positional('file', { type: 'string', describe: 'Defaults to stdout' }),
+    (argv) => getCommand(createStore(), argv.path, argv.file, io),
+  )
+  .command(
+    'cat <path>',
+    'Decrypt bucket/key to stdout',
+    (y) => y.positional('path', { type: 'string', demandOption: true }),
+    (argv) => getCommand(createStore(), argv.path, undefined, io),
+  )
+  .command(
+    'ls <path>',
+    'List the keys under bucket/prefix',
+    (y) =>
+      y
+        .positional('path', { type: 'string', demandOption: true })
+        .option('recursive', {
+          alias: 'r',
+          type: 'boolean',
+          default: false,
+          describe: 'Include keys in subfolders',
+        }),
+    (argv) => lsCommand(createStore(), argv.path, argv.recursive, io),
+  )
+  .command(
+    'cp <src> <dst>',
+    'Copy bucket/key to another path, in any bucket',
+    (y) =>
+      y
+        .positional('src', { type: 'string', demandOption: true })
+        .positional('dst', { type: 'string', demandOption: true }),
+    (argv) => createStore().copy(argv.src, argv.dst),
+  )
+  .command(
+    'mv <src> <dst>',
+    'Move bucket/key to another path, in any bucket',
+    (y) =>
+      y
+        .positional('src', { type: 'string', demandOption: true })
+        .positional('dst', { type: 'string', demandOption: true }),
+    (argv) => createStore().move(argv.src, argv.dst),
+  )
+  .command(
+    'rm <path>',
+    'Delete bucket/key, or every object under bucket/prefix',
+    (y) =>
+      y
+        .positional('path', { type: 'string', demandOption: true })
+        .option('recursive', {
+          alias: 'r',
+          type: 'boolean',
+          default: false,
+          describe: 'Delete every object under the prefix',
+        }),
+    async (argv) => {
+      exitCode = await rmCommand(createStore(), argv.path, argv.recursive, io);
+    },
+  )
+  .command(
+    'rotate <path>',
+    'Re-encrypt objects under bucket/prefix with the primary key',
+    (y) =>
+      y
+        .positional('path', { type: 'string', demandOption: true })
+        .option('dry-run', { type: 'boolean', default: false })
+        .option('concurrency', { type: 'number' })
+        .option('start-after', { type: 'string' }),
+    async (argv) => {
+      exitCode = await rotateCommand(createStore(), argv.path, argv, io);
+    },
+  )
+  .command(
+    'verify <path>',
+    'Check that every object under bucket/prefix decrypts',
+    (y) => y.positional('path', { type: 'string', demandOption: true }),
+    async (argv) => {
+      exitCode = await verifyCommand(createStore(), argv.path, io);
+    },
+  )
+  .command(
+    'keygen [kid]',
+    'Print a new random 256-bit key',
+    (y) =>
+      y.positional('kid', {
+        type: 'string',
+        describe: 'Print it as a KEY_<KID>= line',
+      }),
+    (argv) => keygenCommand(argv.kid, io),
+  )
+  .demandCommand(1)
+  .strict()
+  .help()
+  .fail((message, err) => {
+    throw err ?? new UsageError(`${message}\nRun with --help for usage.`);
+  });
+
+try {
+  await cli.parseAsync();
+} catch (err) {
+  const error = err as Error;
+  io.stderr.write(`secure-s3-store: ${error.message}\n`);
+  exitCode = error instanceof UsageError ? ExitCode.USAGE : exitCodeFor(error);
+}
+process.exitCode = exitCode;
@@ -0,0 +1,167 @@
+// src/cache.ts
+import { ValidationError } from './errors.js';
+
+export interface ReadCacheOptions {
+  /** The most plaintext bytes kept over all entries. Defaults to 64MB. */
+  maxBytes?: number;
+  /**
+   * The milliseconds an entry is served without asking the storage. Once it
+   * expires, the next read revalidates it with a conditional request that
+   * downloads the object only if its ETag changed. Defaults to 60 seconds;
+   * 0 revalidates on every read.
+   */
+  ttl?: number;
+  /**
+   * Overwrite an entry's plaintext with zeros when it is evicted, replaced,
+   * invalidated or cleared, so that it does not linger in freed memory.
+   * Defaults to false.
+   */
+  zeroOnEvict?: boolean;
+}
+
+/** A decrypted object held by `ReadCache`. */
+export interface CachedObject {
+  data: Buffer;
+  /** The ETag of the stored, encrypted object the data was read from. */
+  etag: string;
+  versionId?: string;
+  /** The KID of the key the object was encrypted with. */
+  kid?: string;
+}
+
+interface Entry extends CachedObject {
+  expires: number;
+}
+
+/**
+ * A least-recently-used cache of decrypted objects by path, bounded by the
+ * total size of their plaintext and by a time to live. Entries are kept in
+ * process memory only and are never written to disk.
+ *
+ * @remarks
+ * Every entry records the ETag of the object it was read from, which the
+ * store passes as `ifNoneMatch` to revalidate an expired entry. Data is
+ * copied on the way in and out, so callers cannot alter a cached entry and
+ * zeroing an entry never clears a buffer a caller holds.
+ */
+export class ReadCache {
+  private readonly entries = new Map<string, Entry>();
+  private readonly maxBytes: number;
+  private readonly ttl: number;
+  private readonly zeroOnEvict: boolean;
+  private bytes = 0;
+  private invalidations = 0;
+
+  constructor(options: ReadCacheOptions = {}) {
+    const { maxBytes = 64 * 1024 * 1024, ttl = 60_000 } = options;
+    if (!Number.isInteger(maxBytes) || maxBytes <= 0) {
+      throw new ValidationError(
+        'The cache `maxBytes` must be a positive integer.',
+      );
+    }
+    if (!Number.isFinite(ttl) || ttl < 0) {
+      throw new ValidationError(
+        'The cache `ttl` must be a non-negative number of milliseconds.',
+      );
+    }
+    this.maxBytes = maxBytes;
+    this.ttl = ttl;
+    this.zeroOnEvict = options.zeroOnEvict || false;
+  }
+
+  /** The plaintext bytes currently cached. */
+  get size(): number {
+    return this.bytes;
+  }
+
+  /**
+   * Counts the invalidations so far. A read takes it before fetching and
+   * passes it to `set`, which drops the result if the path may have been
+   * written in the meantime.
+   */
+  get generation(): number {
+    return this.invalidations;
+  }
+
+  /**
+   * Returns a copy of the entry for a path, even an expired one, and marks it
+   * as the most recently used.
+   * @returns The entry and whether it is still within its time to live.
+   */
+  lookup(path: string): { object: CachedObject; fresh: boolean } | undefined {
+    const entry = this.entries.get(path);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(path);
+    this.entries.set(path, entry);
+    const { expires, ...object } = entry;
+    return {
+      object: { ...object, data: Buffer.from(entry.data) },
+      fresh: Date.now() < expires,
+    };
+  }
+
+  /** Restarts the time to live of an entry the storage confirmed unchanged. */
+  refresh(path: string): void {
+    const entry = this.entries.get(path);
+    if (entry) {
+      entry.expires = Date.now() + this.ttl;
+    }
+  }
+
+  /**
+   * Caches a copy of an object, evicting the least recently used entries to
+   * make room. Objects larger than `maxBytes` are not cached.
+   * @param generation - The `generation` taken before the object was read.
+   */
+  set(path: string, object: CachedObject, generation: number): void {
+    if (generation !== this.invalidations) {
+      return;
+    }
+    this.remove(path);
+    if (object.data.length > this.maxBytes) {
+      return;
+    }
+    const data = Buffer.alloc(object.data.length);
+    object.data.copy(data);
+    this.entries.set(path, {
+      ...object,
+      data,
+      expires: Date.now() + this.ttl,
+    });
+    this.bytes += data.length;
+    for (const [oldest] of this.entries) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(oldest);
+    }
+  }
+
+  /** Drops the entry for a path, and any read of it still in flight. */
+  invalidate(path: string): void {
+    this.invalidations++;
+    this.remove(path);
+  }
+
+  /** Drops every entry. */
+  clear(): void {
+    this.invalidations++;
+    for (const path of [...this.entries.keys()]) {
+      this.remove(path);
+    }
+  }
+
+  private remove(path: string): void {
+    const entry = this.entries.get(path);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(path);
+    this.bytes -= entry.data.length;
+    if (this.zeroOnEvict) {
+      entry.data.fill(0);
+    }
+  }
+}
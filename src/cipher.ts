@@ -0,0 +1,152 @@
+// src/cipher.ts
+import { createCipheriv, createDecipheriv } from 'crypto';
+import type { CipherGCM, DecipherGCM } from 'crypto';
+import { ValidationError, DecryptionError } from './errors.js';
+import { CipherAlgorithm } from './header.js';
+
+/** The ciphers `SecureS3Store` can encrypt new objects with. */
+export type Cipher = 'aes-256-gcm' | 'chacha20-poly1305' | 'xchacha20-poly1305';
+
+const cipherIds: { [name in Cipher]: number } = {
+  'aes-256-gcm': CipherAlgorithm.AES_256_GCM,
+  'chacha20-poly1305': CipherAlgorithm.CHACHA20_POLY1305,
+  'xchacha20-poly1305': CipherAlgorithm.XCHACHA20_POLY1305,
+};
+
+/** The nonce length of each cipher, in bytes. */
+const nonceLengths: { [id: number]: number } = {
+  [CipherAlgorithm.AES_256_GCM]: 12,
+  [CipherAlgorithm.CHACHA20_POLY1305]: 12,
+  [CipherAlgorithm.XCHACHA20_POLY1305]: 24,
+};
+
+/** Objects written before nonces were shortened use 16-byte AES-GCM IVs. */
+const legacyIvLength = 16;
+const authTagLength = 16;
+
+/** The part of a cipher `encryptPayload` and `EncryptStream` use. */
+export interface AeadCipher {
+  setAAD(aad: Buffer): unknown;
+  update(data: Buffer): Buffer;
+  final(): Buffer;
+  getAuthTag(): Buffer;
+}
+
+/** The part of a decipher `DecryptStream` uses. */
+export interface AeadDecipher {
+  setAAD(aad: Buffer): unknown;
+  setAuthTag(tag: Buffer): unknown;
+  update(data: Buffer): Buffer;
+  final(): Buffer;
+}
+
+/**
+ * Returns the header id of a cipher.
+ * @throws {ValidationError} If the cipher is unknown.
+ */
+export function cipherId(cipher: Cipher): number {
+  const id = cipherIds[cipher];
+  if (!id) {
+    throw new ValidationError(`Unknown cipher: ${cipher}`);
+  }
+  return id;
+}
+
+/** Returns the length of the nonces a new object is encrypted with. */
+export function nonceLength(algorithm: number): number {
+  const length = nonceLengths[algorithm];
+  if (!length) {
+    throw new DecryptionError(`Unsupported cipher algorithm id: ${algorithm}`);
+  }
+  return length;
+}
+
+/**
+ * Creates a cipher for the algorithm recorded under `algorithm`.
+ * @param key - A 32-byte key.
+ * @param nonce - A nonce of `nonceLength(algorithm)` bytes, never reused
+ * with the same key.
+ */
+export function createAeadCipher(
+  algorithm: number,
+  key: Buffer,
+  nonce: Buffer,
+): AeadCipher {
+  if (nonce.length !== nonceLength(algorithm)) {
+    throw new ValidationError(`Invalid nonce length: ${nonce.length}`);
+  }
+  if (algorithm === CipherAlgorithm.AES_256_GCM) {
+    return createCipheriv('aes-256-gcm', key, nonce) as CipherGCM;
+  }
+  // Node's typings require `plaintextLength` in `setAAD`, which only CCM needs.
+  return createCipheriv('chacha20-poly1305', ...chachaParams(key, nonce), {
+    authTagLength,
+  }) as unknown as AeadCipher;
+}
+
+/**
+ * Creates a decipher for the algorithm recorded under `algorithm`. AES-GCM
+ * also accepts the 16-byte IVs of older objects.
+ * @throws {DecryptionError} If the algorithm is unknown or the nonce has the
+ * wrong length for it.
+ */
+export function createAeadDecipher(
+  algorithm: number,
+  key: Buffer,
+  nonce: Buffer,
+): AeadDecipher {
+  const expected = nonceLength(algorithm);
+  if (algorithm === CipherAlgorithm.AES_256_GCM) {
+    if (nonce.length !== expected && nonce.length !== legacyIvLength) {
+      throw new DecryptionError(`Invalid AES-GCM IV length: ${nonce.length}`);
+    }
+    return createDecipheriv('aes-256-gcm', key, nonce) as DecipherGCM;
+  }
+  if (nonce.length !== expected) {
+    throw new DecryptionError(
+      `Invalid ChaCha20-Poly1305 nonce length: ${nonce.length}`,
+    );
+  }
+  return createDecipheriv('chacha20-poly1305', ...chachaParams(key, nonce), {
+    authTagLength,
+  }) as unknown as AeadDecipher;
+}
+
+/**
+ * The key and 12-byte nonce to run ChaCha20-Poly1305 with. XChaCha20-Poly1305
+ * derives a subkey from the first 16 bytes of its 24-byte nonce with HChaCha20
+ * and uses the last 8, after four zero bytes, as the nonce.
+ */
+function chachaParams(key: Buffer, nonce: Buffer): [Buffer, Buffer] {
+  if (nonce.length === 12) {
+    return [key, nonce];
+  }
+  const subnonce = Buffer.alloc(12);
+  nonce.copy(subnonce, 4, 16);
+  return [hchacha20(key, nonce.subarray(0, 16)), subnonce];
+}
+
+const sigma = Buffer.from('expand 32-byte k', 'ascii');
+
+/**
+ * HChaCha20 (draft-irtf-cfrg-xchacha, section 2.2), computed from a ChaCha20
+ * keystream block. Node's `chacha20` takes the counter and nonce as a 16-byte
+ * IV, i.e. words 12 to 15 of the initial state, so the block for IV `nonce`
+ * is that state plus its permutation. HChaCha20 returns words 0 to 3 and 12
+ * to 15 of the permutation, recovered by subtracting the known state words.
+ */
+function hchacha20(key: Buffer, nonce: Buffer): Buffer {
+  const block = createCipheriv('chacha20', key, nonce).update(Buffer.alloc(64));
+  const subkey = Buffer.alloc(32);
+  for (let i = 0; i < 4; i++) {
+    const constant = sigma.readUInt32LE(i * 4);
+    const input = nonce.readUInt32LE(i * 4);
+    subkey.writeUInt32LE((block.readUInt32LE(i * 4) - constant) >>> 0, i * 4);
+    subkey.writeUInt32LE(
+      (block.readUInt32LE(48 + i * 4) - input) >>> 0,
+      16 + i * 4,
+    );
+  }
+  block.fill(0);
+  return subkey;
+}
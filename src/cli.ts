@@ -0,0 +1,212 @@
+// src/cli.ts
+import fs from 'fs';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { randomBytes } from 'crypto';
+import { SecureS3Store, SecureS3StoreConfig } from './SecureS3Store.js';
+import { loadConfigFromEnv } from './config.js';
+import { Logger, createConsoleLogger } from './logging.js';
+import {
+  ValidationError,
+  S3Error,
+  DecryptionError,
+  NotFoundError,
+} from './errors.js';
+
+/** Process exit codes used by the `secure-s3-store` command. */
+export const ExitCode = {
+  OK: 0,
+  /** An unexpected error, or `rotate`/`verify` found objects they could not handle. */
+  FAILURE: 1,
+  /** The command line could not be parsed. */
+  USAGE: 2,
+  NOT_FOUND: 3,
+  DECRYPTION: 4,
+  VALIDATION: 5,
+  S3: 6,
+} as const;
+
+/** The streams a command reads from and writes to. */
+export interface CliIO {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+}
+
+/**
+ * Returns the exit code for an error thrown by a command.
+ * @param err - The error.
+ */
+export function exitCodeFor(err: unknown): number {
+  if (err instanceof NotFoundError) {
+    return ExitCode.NOT_FOUND;
+  }
+  if (err instanceof DecryptionError) {
+    return ExitCode.DECRYPTION;
+  }
+  if (err instanceof ValidationError) {
+    return ExitCode.VALIDATION;
+  }
+  if (err instanceof S3Error) {
+    return ExitCode.S3;
+  }
+  return ExitCode.FAILURE;
+}
+
+/**
+ * Builds a store configuration from the environment variables described in
+ * `.env.example` with `loadConfigFromEnv`, logging to `logger`.
+ * @param env - The environment, usually `process.env`.
+ * @param logger - The logger for the store.
+ * @throws {SchemaValidationError} If a variable is missing or invalid.
+ */
+export function configFromEnv(
+  env: NodeJS.ProcessEnv,
+  logger: Logger,
+): SecureS3StoreConfig {
+  return { ...loadConfigFromEnv(env), logger };
+}
+
+/**
+ * Creates a logger that writes to stderr, so that it never mixes with data
+ * piped to stdout. It is silent unless `verbose` is set.
+ */
+export function createCliLogger(verbose: boolean): Logger {
+  const silent = () => undefined;
+  return verbose
+    ? createConsoleLogger({ level: 'info', stream: process.stderr })
+    : { error: silent, warn: silent, info: silent, debug: silent };
+}
+
+function isStdio(file?: string): boolean {
+  return file === undefined || file === '-';
+}
+
+/**
+ * Encrypts a file, or stdin if `file` is omitted or `-`, to `path`.
+ */
+export async function putCommand(
+  store: SecureS3Store,
+  path: string,
+  file: string | undefined,
+  io: CliIO,
+): Promise<void> {
+  if (isStdio(file)) {
+    await store.putStream(path, io.stdin);
+    return;
+  }
+  const { size } = await fs.promises.stat(file!);
+  await store.putStream(path, fs.createReadStream(file!), {
+    contentLength: size,
+  });
+}
+
+/**
+ * Decrypts `path` to a file, or to stdout if `file` is omitted or `-`.
+ */
+export async function getCommand(
+  store: SecureS3Store,
+  path: string,
+  file: string | undefined,
+  io: CliIO,
+): Promise<void> {
+  const source = await store.getStream(path);
+  if (isStdio(file)) {
+    await pipeline(source, io.stdout, { end: false });
+    return;
+  }
+  await pipeline(source, fs.createWriteStream(file!));
+}
+
+/**
+ * Writes the folders and keys under `path` to stdout, one per line. Folders
+ * end with `/`.
+ */
+export async function lsCommand(
+  store: SecureS3Store,
+  path: string,
+  recursive: boolean,
+  io: CliIO,
+): Promise<void> {
+  for await (const entry of store.listIterator(path, { recursive })) {
+    io.stdout.write(`${entry.key}\n`);
+  }
+}
+
+/**
+ * Deletes `path`, or with `recursive` every object under it, writing each key
+ * that could not be deleted to stdout.
+ * @returns `ExitCode.FAILURE` if any object could not be deleted.
+ */
+export async function rmCommand(
+  store: SecureS3Store,
+  path: string,
+  recursive: boolean,
+  io: CliIO,
+): Promise<number> {
+  if (!recursive) {
+    await store.delete(path);
+    return ExitCode.OK;
+  }
+  const report = await store.deletePrefix(path);
+  for (const { key, error } of report.failed) {
+    io.stdout.write(`FAILED ${key}: ${error}\n`);
+  }
+  return report.failed.length > 0 ? ExitCode.FAILURE : ExitCode.OK;
+}
+
+/**
+ * Re-encrypts the objects under `path` and writes the report to stdout as JSON.
+ * @returns `ExitCode.FAILURE` if any object could not be rotated.
+ */
+export async function rotateCommand(
+  store: SecureS3Store,
+  path: string,
+  options: { dryRun: boolean; concurrency?: number; startAfter?: string },
+  io: CliIO,
+): Promise<number> {
+  const report = await store.rotate(path, options);
+  io.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  return report.failed.length > 0 ? ExitCode.FAILURE : ExitCode.OK;
+}
+
+/**
+ * Verifies every object under `path` with `SecureS3Store.verify`, writing one
+ * `ok <key>` or `FAILED <key>: <reason>` line per object as it is checked, then
+ * one `STRAY <key>` line per key the store did not write.
+ * @returns `ExitCode.DECRYPTION` if any object is damaged or unreadable with
+ * the configured keys, `ExitCode.S3` if any could not be downloaded, or
+ * `ExitCode.OK`. The first failure decides when there are several kinds.
+ */
+export async function verifyCommand(
+  store: SecureS3Store,
+  path: string,
+  io: CliIO,
+): Promise<number> {
+  let exitCode: number = ExitCode.OK;
+  const report = await store.verify(path, {
+    onResult: ({ key, status, error }) => {
+      if (status === 'ok') {
+        io.stdout.write(`ok ${key}\n`);
+        return;
+      }
+      io.stdout.write(`FAILED ${key}: ${error}\n`);
+      if (exitCode === ExitCode.OK) {
+        exitCode = status === 'failed' ? ExitCode.S3 : ExitCode.DECRYPTION;
+      }
+    },
+  });
+  for (const key of report.stragglers) {
+    io.stdout.write(`STRAY ${key}\n`);
+  }
+  return exitCode;
+}
+
+/**
+ * Writes a new random 256-bit key to stdout, as a `KEY_<KID>=` line ready for
+ * a `.env` file if `kid` is given, or as bare hex otherwise.
+ */
+export function keygenCommand(kid: string | undefined, io: CliIO): void {
+  const key = randomBytes(32).toString('hex');
+  io.stdout.write(kid ? `KEY_${kid.toUpperCase()}=${key}\n` : `${key}\n`);
+}
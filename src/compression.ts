@@ -0,0 +1,185 @@
+// src/compression.ts
+import zlib from 'zlib';
+import { Transform, TransformCallback } from 'stream';
+import { ValidationError, DecryptionError } from './errors.js';
+import { CompressionAlgorithm } from './header.js';
+
+/** The compression algorithms `SecureS3Store` can apply before encryption. */
+export type Compression = 'gzip' | 'brotli' | 'zstd';
+
+const compressionIds: { [name in Compression]: number } = {
+  gzip: CompressionAlgorithm.GZIP,
+  brotli: CompressionAlgorithm.BROTLI,
+  zstd: CompressionAlgorithm.ZSTD,
+};
+
+/** Zstandard is only built into newer Node.js releases. */
+function zstdAvailable(): boolean {
+  return typeof zlib.zstdCompressSync === 'function';
+}
+
+/**
+ * Returns the header id of a compression algorithm.
+ * @throws {ValidationError} If the algorithm is unknown or not available in
+ * this Node.js runtime.
+ */
+export function compressionId(compression: Compression): number {
+  const id = compressionIds[compression];
+  if (!id) {
+    throw new ValidationError(`Unknown compression algorithm: ${compression}`);
+  }
+  if (id === CompressionAlgorithm.ZSTD && !zstdAvailable()) {
+    throw new ValidationError(
+      'zstd compression is not available in this Node.js runtime.',
+    );
+  }
+  return id;
+}
+
+/**
+ * Compresses a buffer with the algorithm recorded under `id`.
+ * Brotli uses a mid-range quality: the default of 11 is several times slower
+ * for little extra gain on typical JSON and log data.
+ */
+export function compress(data: Buffer, id: number): Buffer {
+  switch (id) {
+    case CompressionAlgorithm.GZIP:
+      return zlib.gzipSync(data);
+    case CompressionAlgorithm.BROTLI:
+      return zlib.brotliCompressSync(data, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]: 5,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+        },
+      });
+    case CompressionAlgorithm.ZSTD:
+      return zlib.zstdCompressSync(data);
+    default:
+      throw new ValidationError(`Unsupported compression algorithm id: ${id}`);
+  }
+}
+
+function createDecompressor(id: number): Transform {
+  switch (id) {
+    case CompressionAlgorithm.GZIP:
+      return zlib.createGunzip();
+    case CompressionAlgorithm.BROTLI:
+      return zlib.createBrotliDecompress();
+    case CompressionAlgorithm.ZSTD:
+      if (zstdAvailable()) {
+        return zlib.createZstdDecompress();
+      }
+      throw new DecryptionError(
+        'Object is zstd-compressed, but zstd is not available in this Node.js runtime.',
+      );
+    default:
+      throw new DecryptionError(`Unsupported compression algorithm id: ${id}`);
+  }
+}
+
+/**
+ * Decompresses decrypted data, guarding against decompression bombs.
+ *
+ * @remarks
+ * The stream passes data through unchanged until `start` is called with the
+ * algorithm from the object header. The output may not exceed `maxLength`
+ * bytes, and must match the uncompressed length recorded in the header;
+ * either failure is reported as a `DecryptionError`.
+ */
+export class DecompressStream extends Transform {
+  private decompressor?: Transform;
+  private failure?: Error;
+  private pending?: TransformCallback;
+  private expectedLength = 0;
+  private length = 0;
+
+  /**
+   * @param maxLength - The maximum number of bytes to decompress.
+   */
+  constructor(private readonly maxLength: number) {
+    super();
+  }
+
+  /**
+   * Starts decompressing. Must be called before any data is written.
+   * @param id - The `CompressionAlgorithm` id from the header.
+   * @param expectedLength - The uncompressed length from the header.
+   */
+  start(id: number, expectedLength: number): void {
+    if (expectedLength > this.maxLength) {
+      throw new DecryptionError(
+        `Decompressed size of ${expectedLength} bytes exceeds maximum limit of ${this.maxLength} bytes`,
+      );
+    }
+    this.expectedLength = expectedLength;
+    this.decompressor = createDecompressor(id);
+    this.decompressor.on('error', (err) => {
+      this.failure ??= err;
+      this.settle();
+    });
+    this.decompressor.on('data', (chunk: Buffer) => {
+      this.length += chunk.length;
+      if (this.length > this.expectedLength) {
+        this.decompressor!.destroy(
+          new DecryptionError(
+            'Decompressed data is larger than its recorded size.',
+          ),
+        );
+        return;
+      }
+      this.push(chunk);
+    });
+    this.decompressor.on('end', () => {
+      if (this.length !== this.expectedLength) {
+        this.failure ??= new DecryptionError(
+          'Decompressed data does not match its recorded size.',
+        );
+      }
+      this.settle();
+    });
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    if (!this.decompressor) {
+      callback(null, chunk);
+      return;
+    }
+    this.pending = callback;
+    if (this.failure) {
+      this.settle();
+      return;
+    }
+    this.decompressor.write(chunk, () => this.settle());
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (!this.decompressor) {
+      callback();
+      return;
+    }
+    this.pending = callback;
+    if (this.failure) {
+      this.settle();
+      return;
+    }
+    this.decompressor.end();
+  }
+
+  /** Completes the pending write or flush, with the first failure if any. */
+  private settle(): void {
+    const callback = this.pending;
+    this.pending = undefined;
+    callback?.(this.toDecryptionError(this.failure));
+  }
+
+  private toDecryptionError(err?: Error): Error | null {
+    if (!err || err instanceof DecryptionError) {
+      return err ?? null;
+    }
+    return new DecryptionError(`Unable to decompress data: ${err.message}`);
+  }
+}
@@ -0,0 +1,38 @@
+// src/concurrency.ts
+
+/**
+ * Calls `fn` for every item with at most `limit` calls in flight at once.
+ * Results are returned in the same order as the items. If any call rejects,
+ * no further items are started and the first rejection is rethrown once the
+ * calls already in flight have settled.
+ * @param items - The items to process.
+ * @param limit - The maximum number of concurrent calls.
+ * @param fn - The async function to call for each item.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
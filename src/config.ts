@@ -0,0 +1,308 @@
+// src/config.ts
+import fs from 'fs';
+import { z } from 'zod';
+import { SecureS3StoreConfig } from './SecureS3Store.js';
+import { SchemaValidationError, formatIssues } from './errors.js';
+import { createFileLogger } from './logging.js';
+
+type Issue = z.core.$ZodIssue;
+
+const required = z.string({
+  error: (issue) =>
+    issue.input === undefined ? 'Required.' : 'Must be a string.',
+});
+const name = required.min(1, 'Must not be empty.');
+const count = z.number().int().positive('Must be a positive integer.');
+const size = z.number().int().nonnegative('Must not be negative.');
+const millis = z.number().nonnegative('Must not be negative.');
+/** winston's npm levels, which `configureLogger` accepts. */
+const logLevel = z.enum([
+  'error',
+  'warn',
+  'info',
+  'http',
+  'verbose',
+  'debug',
+  'silly',
+]);
+
+const configFileSchema = z.strictObject({
+  /** The keys by KID, each a 64-character hex string. */
+  keys: z.record(
+    z.string(),
+    required.regex(/^[0-9a-fA-F]{64}$/, 'Must be a 64-character hex string.'),
+  ),
+  primaryKey: name,
+  nameKeyId: name.optional(),
+  s3Config: z
+    .strictObject({
+      endpoint: z.url('Must be a URL.').optional(),
+      region: name.optional(),
+      forcePathStyle: z.boolean().optional(),
+      credentials: z
+        .strictObject({
+          accessKeyId: name,
+          secretAccessKey: name,
+          sessionToken: name.optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  /** Settings for `createFileLogger`, which creates the store's logger. */
+  logging: z
+    .strictObject({
+      consoleLogLevel: logLevel.optional(),
+      fileLogLevel: logLevel.optional(),
+      logDir: name.optional(),
+      filename: name.optional(),
+    })
+    .optional(),
+  maxFileSize: count.optional(),
+  cipher: z
+    .enum(['aes-256-gcm', 'chacha20-poly1305', 'xchacha20-poly1305'])
+    .optional(),
+  compression: z.enum(['gzip', 'brotli', 'zstd']).optional(),
+  compressionMinSize: size.optional(),
+  multipartThreshold: count.optional(),
+  partSize: count.optional(),
+  partConcurrency: count.optional(),
+  allowUnboundObjects: z.boolean().optional(),
+  retry: z
+    .strictObject({
+      maxAttempts: count.optional(),
+      baseDelay: millis.optional(),
+      maxDelay: millis.optional(),
+    })
+    .optional(),
+  timeout: count.optional(),
+  cache: z
+    .strictObject({
+      maxBytes: count.optional(),
+      ttl: millis.optional(),
+      zeroOnEvict: z.boolean().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * The contents of a configuration file read by `loadConfigFromFile`: the
+ * settings of `SecureS3StoreConfig` that can be written as JSON, with the S3
+ * client settings limited to the endpoint, region, path style and credentials,
+ * plus `logging` for `createFileLogger`.
+ */
+export type ConfigFile = z.input<typeof configFileSchema>;
+
+/** The environment variables read by `loadConfigFromEnv`, by config path. */
+const variables: { [path: string]: string } = {
+  primaryKey: 'PRIMARY_KEY',
+  nameKeyId: 'NAME_KEY_ID',
+  's3Config.endpoint': 'S3_ENDPOINT',
+  's3Config.forcePathStyle': 'S3_FORCE_PATH_STYLE',
+  's3Config.credentials.accessKeyId': 'AWS_ACCESS_KEY_ID',
+  's3Config.credentials.secretAccessKey': 'AWS_SECRET_ACCESS_KEY',
+  's3Config.credentials.sessionToken': 'AWS_SESSION_TOKEN',
+  'logging.consoleLogLevel': 'LOG_LEVEL',
+  'logging.fileLogLevel': 'LOG_FILE_LEVEL',
+  'logging.logDir': 'LOG_DIR',
+};
+
+/**
+ * Builds a store configuration from environment variables, as described in
+ * `.env.example`, and validates it.
+ *
+ * @remarks
+ * Every non-empty `KEY_<KID>` variable is loaded as a key, with the KID in
+ * lower case (`KEY_V1` becomes `v1`). `PRIMARY_KEY` is required and
+ * `NAME_KEY_ID` is optional. The S3 client is configured from `S3_ENDPOINT`,
+ * `S3_REGION` (or `DO_SPACES_REGION` or `AWS_REGION`, defaulting to
+ * `us-east-1`), `S3_FORCE_PATH_STYLE` (`true` or `false`) and
+ * `AWS_ACCESS_KEY_ID`, `AWS_SECRET_ACCESS_KEY` and `AWS_SESSION_TOKEN`;
+ * without credentials the SDK's default credential chain is used. If any of
+ * `LOG_LEVEL`, `LOG_FILE_LEVEL` or `LOG_DIR` is set, a logger is created with
+ * `createFileLogger`.
+ * @param env - The environment. Defaults to `process.env`.
+ * @returns The configuration, to pass to the `SecureS3Store` constructor.
+ * @throws {SchemaValidationError} Listing every problem at once, by variable
+ * name, e.g. a key that is not 64 hex characters, two variables for the same
+ * KID, the same key under two KIDs or a `PRIMARY_KEY` that names no key.
+ * Values are never included.
+ */
+export function loadConfigFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): SecureS3StoreConfig {
+  const issues: Issue[] = [];
+  const keys: { [kid: string]: string } = {};
+  const keyVariables = new Map<string, string>();
+  for (const variable of Object.keys(env).sort()) {
+    const match = /^KEY_(.+)$/.exec(variable);
+    const value = env[variable];
+    if (!match || !value) {
+      continue;
+    }
+    const kid = match[1].toLowerCase();
+    const previous = keyVariables.get(kid);
+    if (previous) {
+      issues.push(
+        custom(
+          [variable],
+          `Defines the KID \`${kid}\` again, after ${previous}.`,
+        ),
+      );
+      continue;
+    }
+    keyVariables.set(kid, variable);
+    keys[kid] = value;
+  }
+
+  const read = (path: string) => env[variables[path]] || undefined;
+  const { AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY } = env;
+  const logging = {
+    consoleLogLevel: read('logging.consoleLogLevel'),
+    fileLogLevel: read('logging.fileLogLevel'),
+    logDir: read('logging.logDir'),
+  };
+  const input = {
+    keys,
+    primaryKey: read('primaryKey'),
+    nameKeyId: read('nameKeyId'),
+    s3Config: {
+      endpoint: read('s3Config.endpoint'),
+      region:
+        env.S3_REGION || env.DO_SPACES_REGION || env.AWS_REGION || 'us-east-1',
+      forcePathStyle: parseBoolean(read('s3Config.forcePathStyle')),
+      credentials:
+        AWS_ACCESS_KEY_ID || AWS_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: read('s3Config.credentials.accessKeyId'),
+              secretAccessKey: read('s3Config.credentials.secretAccessKey'),
+              sessionToken: read('s3Config.credentials.sessionToken'),
+            }
+          : undefined,
+    },
+    logging: Object.values(logging).some(Boolean) ? logging : undefined,
+  };
+
+  return parseConfig(input, 'the environment', issues, (path) => {
+    const key = path.map(String).join('.');
+    if (path[0] === 'keys') {
+      return [keyVariables.get(String(path[1])) ?? 'KEY_<KID>'];
+    }
+    return [variables[key] ?? key];
+  });
+}
+
+/**
+ * Reads a store configuration from a JSON file (see `ConfigFile`) and
+ * validates it.
+ * @param path - The file to read.
+ * @returns A Promise that resolves with the configuration, to pass to the
+ * `SecureS3Store` constructor.
+ * @throws {SchemaValidationError} If the file is not JSON, or listing every
+ * problem with its path in the file, e.g. `keys.v2` or `s3Config.endpoint`.
+ * Values are never included.
+ * @throws If the file cannot be read, the error of `fs.readFile`.
+ *
+ * @example
+ * ```typescript
+ * // { "keys": { "v1": "..." }, "primaryKey": "v1", "s3Config": { "region": "eu-west-1" } }
+ * const store = new SecureS3Store(await loadConfigFromFile('store.json'));
+ * ```
+ */
+export async function loadConfigFromFile(
+  path: string,
+): Promise<SecureS3StoreConfig> {
+  const text = await fs.promises.readFile(path, 'utf8');
+  let input: unknown;
+  try {
+    input = JSON.parse(text);
+  } catch {
+    // The parser's message may quote the file, keys included.
+    const message = `The configuration file ${path} is not valid JSON.`;
+    throw new SchemaValidationError(message, [custom([], message)]);
+  }
+  return parseConfig(input, path, [], (issuePath) => issuePath);
+}
+
+/**
+ * Validates the configuration and creates its logger.
+ * @param source - Where the configuration came from, for the error message.
+ * @param issues - Problems already found while reading it.
+ * @param locate - Maps the path of an issue in the configuration to the path
+ * reported, such as the name of an environment variable.
+ */
+function parseConfig(
+  input: unknown,
+  source: string,
+  issues: Issue[],
+  locate: (path: PropertyKey[]) => PropertyKey[],
+): SecureS3StoreConfig {
+  const result = configFileSchema.safeParse(input);
+  const found = [
+    ...issues,
+    ...(result.success ? [] : result.error.issues).map((issue) => ({
+      ...issue,
+      path: locate(issue.path),
+    })),
+    ...checkKeys(input).map((issue) => ({
+      ...issue,
+      path: locate(issue.path),
+    })),
+  ];
+  if (!result.success || found.length > 0) {
+    throw new SchemaValidationError(
+      `Invalid configuration in ${source}: ${formatIssues(found)}`,
+      found,
+    );
+  }
+
+  const { logging, ...config } = result.data;
+  return logging ? { ...config, logger: createFileLogger(logging) } : config;
+}
+
+/** Checks that the keys are distinct and that the KIDs in use are present. */
+function checkKeys(input: unknown): Issue[] {
+  const { keys, primaryKey, nameKeyId } = (input ?? {}) as {
+    keys?: unknown;
+    primaryKey?: unknown;
+    nameKeyId?: unknown;
+  };
+  if (typeof keys !== 'object' || keys === null) {
+    return [];
+  }
+  const issues: Issue[] = [];
+  if (Object.keys(keys).length === 0) {
+    issues.push(custom(['keys'], 'At least one key is required.'));
+  }
+  const kids = new Map<string, string>();
+  for (const [kid, value] of Object.entries(keys)) {
+    if (typeof value !== 'string') {
+      continue;
+    }
+    const other = kids.get(value.toLowerCase());
+    if (other !== undefined) {
+      issues.push(custom(['keys', kid], `Is the same key as \`${other}\`.`));
+    } else {
+      kids.set(value.toLowerCase(), kid);
+    }
+  }
+  for (const [field, kid] of Object.entries({ primaryKey, nameKeyId })) {
+    if (typeof kid === 'string' && kid && !Object.hasOwn(keys, kid)) {
+      issues.push(
+        custom([field], `Names the KID \`${kid}\`, which has no key.`),
+      );
+    }
+  }
+  return issues;
+}
+
+/** Parses `true` or `false`, leaving other values for the schema to reject. */
+function parseBoolean(value?: string): boolean | string | undefined {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return value;
+}
+
+function custom(path: PropertyKey[], message: string): Issue {
+  return { code: 'custom', path, message, input: undefined };
+}
@@ -0,0 +1,148 @@
+// src/errors.ts
+import type { z } from 'zod';
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/** A JSON document does not match its schema, or is not JSON at all. */
+export class SchemaValidationError extends ValidationError {
+  /** The problems found, each with its `path` inside the document. */
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(message: string, issues: z.core.$ZodIssue[]) {
+    super(message);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Lists schema issues on one line, each as `path: message`, e.g.
+ * `retries: Invalid input: expected int, received number`.
+ */
+export function formatIssues(issues: z.core.$ZodIssue[]): string {
+  return issues
+    .map(
+      (issue) =>
+        `${issue.path.map(String).join('.') || '(root)'}: ${issue.message}`,
+    )
+    .join('; ');
+}
+
+/** The details of a failed S3 request, as far as they are known. */
+export interface S3ErrorDetails {
+  /** The HTTP status code, if S3 answered. */
+  statusCode?: number;
+  /**
+   * The AWS error code (e.g. `SlowDown`), the network error code (e.g.
+   * `ECONNRESET`), or `AbortError`/`TimeoutError` for cancelled requests.
+   */
+  code?: string;
+  /** The S3 request id, to quote in support requests. */
+  requestId?: string;
+  /** The number of attempts made. */
+  attempts?: number;
+}
+
+export class S3Error extends Error implements S3ErrorDetails {
+  readonly statusCode?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly attempts?: number;
+
+  /**
+   * @param message - The error message.
+   * @param cause - The underlying error, whose details are copied.
+   */
+  constructor(message: string, cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = 'S3Error';
+    Object.assign(this, errorDetails(cause));
+  }
+}
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/** An object ends before its header, tag or final segment is complete. */
+export class TruncatedError extends DecryptionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TruncatedError';
+  }
+}
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** A conditional write found the object changed, or already present. */
+export class PreconditionFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreconditionFailedError';
+  }
+}
+
+/** A conditional read found the object unchanged since the given ETag. */
+export class NotModifiedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotModifiedError';
+  }
+}
+
+/**
+ * Extracts the status, code, request id and attempt count from an error
+ * thrown by the AWS SDK, the network stack or an aborted request.
+ */
+export function errorDetails(error: unknown): S3ErrorDetails {
+  if (typeof error !== 'object' || error === null) {
+    return {};
+  }
+  const { name, code, Code, $fault, $metadata } = error as {
+    name?: string;
+    code?: unknown;
+    Code?: unknown;
+    $fault?: string;
+    $metadata?: {
+      httpStatusCode?: number;
+      requestId?: string;
+      attempts?: number;
+    };
+  };
+
+  const details: S3ErrorDetails = {};
+  if (typeof Code === 'string') {
+    details.code = Code;
+  } else if (typeof code === 'string') {
+    details.code = code;
+  } else if (
+    $fault !== undefined ||
+    name === 'AbortError' ||
+    name === 'TimeoutError'
+  ) {
+    details.code = name;
+  }
+  if ($metadata?.httpStatusCode !== undefined) {
+    details.statusCode = $metadata.httpStatusCode;
+  }
+  if ($metadata?.requestId !== undefined) {
+    details.requestId = $metadata.requestId;
+  }
+  if ($metadata?.attempts !== undefined) {
+    details.attempts = $metadata.attempts;
+  }
+  return details;
+}
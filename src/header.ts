@@ -0,0 +1,350 @@
+// src/header.ts
+import { ValidationError, DecryptionError } from './errors.js';
+import type { Cipher } from './cipher.js';
+
+/**
+ * Leading bytes of every versioned header. A legacy payload starts with the
+ * length of its KID, which can never be zero, so the two cannot be confused.
+ */
+export const MAGIC = Buffer.from([0x00, 0x53, 0x33, 0x53]);
+
+/** The header version written by `encodeHeader`. */
+export const HEADER_VERSION = 3;
+
+/**
+ * Version 1 is the original chunked stream header and version 2 adds a
+ * wrapped data key to it. Both are still read, but no longer written.
+ */
+const STREAM_HEADER_VERSION = 1;
+const ENVELOPE_STREAM_HEADER_VERSION = 2;
+
+/** Cipher identifiers recorded in the header. */
+export const CipherAlgorithm = {
+  /** With 12-byte nonces, or the 16-byte IVs of older objects. */
+  AES_256_GCM: 1,
+  CHACHA20_POLY1305: 2,
+  /** ChaCha20-Poly1305 with 24-byte nonces, safe to pick at random. */
+  XCHACHA20_POLY1305: 3,
+} as const;
+
+/** Compression identifiers recorded in the header. */
+export const CompressionAlgorithm = {
+  GZIP: 1,
+  BROTLI: 2,
+  ZSTD: 3,
+} as const;
+
+/** Bit flags recorded in the header. */
+export const HeaderFlags = {
+  /** The body is a sequence of independently sealed segments. */
+  CHUNKED: 0x01,
+  /** The KID names a key-encryption key and the header holds a wrapped data key. */
+  ENVELOPE: 0x02,
+  /** The object's `bucket/key` path is authenticated along with the header. */
+  PATH_BOUND: 0x04,
+  /** The header holds encrypted user metadata (see `sealMetadata`). */
+  USER_METADATA: 0x08,
+  /** The plaintext was compressed before it was encrypted. */
+  COMPRESSED: 0x10,
+  /**
+   * The object is stored under an encrypted key (see `NameCipher`). The header
+   * holds the KID of the name key; the bound path is the plaintext path.
+   */
+  ENCRYPTED_NAME: 0x20,
+} as const;
+
+const cipherNames: { [id: number]: Cipher } = {
+  [CipherAlgorithm.AES_256_GCM]: 'aes-256-gcm',
+  [CipherAlgorithm.CHACHA20_POLY1305]: 'chacha20-poly1305',
+  [CipherAlgorithm.XCHACHA20_POLY1305]: 'xchacha20-poly1305',
+};
+const knownFlags =
+  HeaderFlags.CHUNKED |
+  HeaderFlags.ENVELOPE |
+  HeaderFlags.PATH_BOUND |
+  HeaderFlags.USER_METADATA |
+  HeaderFlags.COMPRESSED |
+  HeaderFlags.ENCRYPTED_NAME;
+const legacyIvLength = 16;
+const streamNoncePrefixLength = 7;
+
+/** The decoded fields of an object header. */
+export interface ObjectHeader {
+  /** The header version, or 0 for the legacy `[KID length][KID][IV]` layout. */
+  version: number;
+  algorithm: number;
+  flags: number;
+  kid: string;
+  /** The IV, or for a chunked body the nonce prefix of every segment. */
+  nonce: Buffer;
+  /** Present when the `ENVELOPE` flag is set. */
+  wrappedKey?: Buffer;
+  /** The plaintext size of each segment. Present when `CHUNKED` is set. */
+  segmentSize?: number;
+  /** Sealed user metadata. Present when `USER_METADATA` is set. */
+  userMetadata?: Buffer;
+  /** The `CompressionAlgorithm` id. Present when `COMPRESSED` is set. */
+  compression?: number;
+  /** The size of the data before compression. Present when `COMPRESSED` is set. */
+  uncompressedLength?: number;
+  /** The KID of the name key. Present when `ENCRYPTED_NAME` is set. */
+  nameKid?: string;
+  /** Optional authenticated (but not encrypted) format metadata. */
+  metadata?: { [name: string]: string };
+}
+
+export interface ParsedHeader {
+  header: ObjectHeader;
+  /** The number of bytes the header occupies at the start of the payload. */
+  length: number;
+  /** The header bytes to authenticate as GCM additional data, if any. */
+  aad?: Buffer;
+}
+
+/**
+ * Returns the name of the cipher recorded under an algorithm identifier, as
+ * set in `SecureS3StoreConfig.cipher`.
+ * @throws {DecryptionError} If the identifier is unknown.
+ */
+export function cipherName(algorithm: number): Cipher {
+  const name = cipherNames[algorithm];
+  if (!name) {
+    throw new DecryptionError(`Unsupported cipher algorithm id: ${algorithm}`);
+  }
+  return name;
+}
+
+/**
+ * Encodes a header in the current format:
+ * `[magic (4)][version (1)][algorithm (1)][flags (1)][KID length (1)][KID]
+ * [nonce length (1)][nonce]`, then `[wrapped key length (2)][wrapped key]` if
+ * `ENVELOPE` is set, `[segment size (4)]` if `CHUNKED` is set,
+ * `[user metadata length (2)][sealed user metadata]` if `USER_METADATA` is
+ * set, `[compression (1)][uncompressed length (6)]` if `COMPRESSED` is set,
+ * `[name KID length (1)][name KID]` if `ENCRYPTED_NAME` is set, and finally
+ * `[metadata length (2)][metadata JSON]`.
+ * @throws {ValidationError} If a field does not fit in the header.
+ */
+export function encodeHeader(fields: Omit<ObjectHeader, 'version'>): Buffer {
+  const { algorithm, flags, nonce, wrappedKey, segmentSize } = fields;
+  const { userMetadata, compression, uncompressedLength, metadata } = fields;
+  const kid = Buffer.from(fields.kid, 'utf8');
+  const nameKid = Buffer.from(fields.nameKid ?? '', 'utf8');
+  const meta = Buffer.from(metadata ? JSON.stringify(metadata) : '', 'utf8');
+
+  if (kid.length === 0 || kid.length > 0xff) {
+    throw new ValidationError('KID must be between 1 and 255 bytes long.');
+  }
+  if (
+    flags & HeaderFlags.ENCRYPTED_NAME &&
+    (nameKid.length === 0 || nameKid.length > 0xff)
+  ) {
+    throw new ValidationError('Name KID must be between 1 and 255 bytes long.');
+  }
+  if (nonce.length > 0xff || (wrappedKey?.length ?? 0) > 0xffff) {
+    throw new ValidationError('Nonce or wrapped key is too long.');
+  }
+  if (meta.length > 0xffff) {
+    throw new ValidationError('Header metadata must not exceed 65535 bytes.');
+  }
+  if ((userMetadata?.length ?? 0) > 0xffff) {
+    throw new ValidationError(
+      'Encrypted user metadata must not exceed 65535 bytes.',
+    );
+  }
+
+  const parts = [
+    MAGIC,
+    Buffer.from([HEADER_VERSION, algorithm, flags, kid.length]),
+    kid,
+    Buffer.from([nonce.length]),
+    nonce,
+  ];
+  if (flags & HeaderFlags.ENVELOPE) {
+    parts.push(uint(2, wrappedKey!.length), wrappedKey!);
+  }
+  if (flags & HeaderFlags.CHUNKED) {
+    parts.push(uint(4, segmentSize!));
+  }
+  if (flags & HeaderFlags.USER_METADATA) {
+    parts.push(uint(2, userMetadata!.length), userMetadata!);
+  }
+  if (flags & HeaderFlags.COMPRESSED) {
+    parts.push(Buffer.from([compression!]), uint(6, uncompressedLength!));
+  }
+  if (flags & HeaderFlags.ENCRYPTED_NAME) {
+    parts.push(Buffer.from([nameKid.length]), nameKid);
+  }
+  parts.push(uint(2, meta.length), meta);
+  return Buffer.concat(parts);
+}
+
+/**
+ * Parses the header at the start of an encrypted payload. Reads the current
+ * format, the earlier chunked stream headers, and the legacy
+ * `[KID length][KID][IV (16)]` layout that has no magic bytes.
+ * @param data - The leading bytes of the payload.
+ * @returns The header, or `undefined` if more bytes are needed.
+ * @throws {DecryptionError} If the header is not a recognized format.
+ */
+export function parseHeader(data: Buffer): ParsedHeader | undefined {
+  if (data.length === 0) {
+    return undefined;
+  }
+  const reader = new HeaderReader(data);
+  try {
+    return data[0] === 0 ? parseVersioned(reader) : parseLegacy(reader);
+  } catch (err) {
+    if (err === incomplete) {
+      return undefined;
+    }
+    throw err;
+  }
+}
+
+function parseLegacy(reader: HeaderReader): ParsedHeader {
+  const kid = reader.bytes(reader.u8()).toString('utf8');
+  const nonce = reader.bytes(legacyIvLength);
+  return {
+    header: {
+      version: 0,
+      algorithm: CipherAlgorithm.AES_256_GCM,
+      flags: 0,
+      kid,
+      nonce,
+    },
+    length: reader.offset,
+  };
+}
+
+function parseVersioned(reader: HeaderReader): ParsedHeader {
+  if (!reader.bytes(MAGIC.length).equals(MAGIC)) {
+    throw new DecryptionError('Unrecognized object header: bad magic bytes.');
+  }
+
+  const version = reader.u8();
+  let header: ObjectHeader;
+  if (
+    version === STREAM_HEADER_VERSION ||
+    version === ENVELOPE_STREAM_HEADER_VERSION
+  ) {
+    header = parseStreamFields(reader, version);
+  } else if (version === HEADER_VERSION) {
+    header = parseCurrentFields(reader);
+  } else {
+    throw new DecryptionError(`Unsupported object header version: ${version}`);
+  }
+
+  const length = reader.offset;
+  return { header, length, aad: Buffer.from(reader.data.subarray(0, length)) };
+}
+
+function parseStreamFields(
+  reader: HeaderReader,
+  version: number,
+): ObjectHeader {
+  const envelope = version === ENVELOPE_STREAM_HEADER_VERSION;
+  const kid = reader.bytes(reader.u8()).toString('utf8');
+  const wrappedKey = envelope ? reader.bytes(reader.u16()) : undefined;
+  const nonce = reader.bytes(streamNoncePrefixLength);
+  const segmentSize = reader.u32();
+
+  return {
+    version,
+    algorithm: CipherAlgorithm.AES_256_GCM,
+    flags: HeaderFlags.CHUNKED | (envelope ? HeaderFlags.ENVELOPE : 0),
+    kid,
+    nonce,
+    wrappedKey,
+    segmentSize: validSegmentSize(segmentSize),
+  };
+}
+
+function parseCurrentFields(reader: HeaderReader): ObjectHeader {
+  const algorithm = reader.u8();
+  cipherName(algorithm);
+
+  const flags = reader.u8();
+  if (flags & ~knownFlags) {
+    throw new DecryptionError(
+      `Unsupported object header flags: 0x${flags.toString(16)}`,
+    );
+  }
+
+  const header: ObjectHeader = {
+    version: HEADER_VERSION,
+    algorithm,
+    flags,
+    kid: reader.bytes(reader.u8()).toString('utf8'),
+    nonce: reader.bytes(reader.u8()),
+  };
+  if (flags & HeaderFlags.ENVELOPE) {
+    header.wrappedKey = reader.bytes(reader.u16());
+  }
+  if (flags & HeaderFlags.CHUNKED) {
+    header.segmentSize = validSegmentSize(reader.u32());
+  }
+  if (flags & HeaderFlags.USER_METADATA) {
+    header.userMetadata = reader.bytes(reader.u16());
+  }
+  if (flags & HeaderFlags.COMPRESSED) {
+    header.compression = reader.u8();
+    header.uncompressedLength = reader.bytes(6).readUIntBE(0, 6);
+  }
+  if (flags & HeaderFlags.ENCRYPTED_NAME) {
+    header.nameKid = reader.bytes(reader.u8()).toString('utf8');
+  }
+
+  const meta = reader.bytes(reader.u16());
+  if (meta.length > 0) {
+    try {
+      header.metadata = JSON.parse(meta.toString('utf8'));
+    } catch {
+      throw new DecryptionError('Invalid object header metadata.');
+    }
+  }
+  return header;
+}
+
+function validSegmentSize(segmentSize: number): number {
+  if (segmentSize === 0) {
+    throw new DecryptionError('Invalid stream segment size: 0');
+  }
+  return segmentSize;
+}
+
+function uint(bytes: 2 | 4 | 6, value: number): Buffer {
+  const buffer = Buffer.alloc(bytes);
+  buffer.writeUIntBE(value, 0, bytes);
+  return buffer;
+}
+
+/** Thrown by `HeaderReader` when the data ends before the header does. */
+const incomplete = Symbol('incomplete');
+
+class HeaderReader {
+  offset = 0;
+
+  constructor(readonly data: Buffer) {}
+
+  u8(): number {
+    return this.bytes(1)[0];
+  }
+
+  u16(): number {
+    return this.bytes(2).readUInt16BE();
+  }
+
+  u32(): number {
+    return this.bytes(4).readUInt32BE();
+  }
+
+  bytes(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw incomplete;
+    }
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return Buffer.from(value);
+  }
+}
@@ -3,10 +3,133 @@
 export {
   SecureS3Store,
   SecureS3StoreConfig,
+  PutOptions,
+  VersionOptions,
+  CopyOptions,
+  RestoreOptions,
+  GetOptions,
+  ETaggedData,
+  ETaggedJson,
+  ObjectVersion,
+  PutStreamOptions,
+  RotateOptions,
+  RotateReport,
+  VerifyOptions,
+  VerifyStatus,
+  VerifyResult,
+  VerifyReport,
+  ObjectInfo,
+  ListOptions,
+  ListPageOptions,
+  ListEntry,
+  ListPage,
+  BatchOptions,
+  PutManyItem,
+  BatchResult,
+  DeletePrefixReport,
+} from './SecureS3Store.js';
+export {
   ValidationError,
+  SchemaValidationError,
   S3Error,
   DecryptionError,
+  TruncatedError,
   NotFoundError,
-} from './SecureS3Store.js';
-export { configureLogger, LoggerConfig } from './logger.js';
+  PreconditionFailedError,
+  NotModifiedError,
+  S3ErrorDetails,
+} from './errors.js';
+export {
+  RetryPolicy,
+  RequestOptions,
+  isRetryableError,
+  backoffDelay,
+} from './retry.js';
+export {
+  StorageBackend,
+  StoredObject,
+  StoredObjectInfo,
+  StoredListEntry,
+  StoredListPage,
+  StoredVersion,
+  StoredVersionPage,
+  BackendPutOptions,
+  BackendGetOptions,
+  BackendVersionOptions,
+  BackendListOptions,
+  BackendListVersionsOptions,
+  MemoryBackend,
+  FileSystemBackend,
+} from './storage.js';
+export { S3Backend, S3BackendConfig } from './s3Backend.js';
+export {
+  EncryptStream,
+  DecryptStream,
+  KeyResolver,
+  EncryptionKey,
+  EncryptOptions,
+  EncryptStreamOptions,
+  DecryptOptions,
+} from './stream.js';
+export {
+  ObjectHeader,
+  ParsedHeader,
+  parseHeader,
+  encodeHeader,
+  CipherAlgorithm,
+  HeaderFlags,
+  CompressionAlgorithm,
+  HEADER_VERSION,
+} from './header.js';
+export {
+  KeyProvider,
+  DataKey,
+  StaticKeyProvider,
+  FileKeyProvider,
+  RemoteKeyProvider,
+  KeyWrappingService,
+} from './keyProvider.js';
+export { NameCipher } from './names.js';
+export {
+  AuditEvent,
+  AuditOperation,
+  AuditContext,
+  AuditListener,
+  ChainedAuditEvent,
+  JsonLinesAuditSink,
+  JsonLinesAuditSinkOptions,
+  AuditLogReport,
+  verifyAuditLog,
+} from './audit.js';
+export {
+  Metrics,
+  Tracer,
+  Span,
+  Attributes,
+  AttributeValue,
+  InMemoryCollector,
+  Measurement,
+  RecordedSpan,
+  noopMetrics,
+  noopTracer,
+} from './instrumentation.js';
+export { ReadCacheOptions } from './cache.js';
+export { loadConfigFromEnv, loadConfigFromFile, ConfigFile } from './config.js';
+export { ObjectMetadata } from './metadata.js';
+export { Cipher } from './cipher.js';
+export { Compression } from './compression.js';
+export { UploadProgress, ProgressListener } from './multipart.js';
+export {
+  Logger,
+  LogMeta,
+  LogLevel,
+  createConsoleLogger,
+  ConsoleLoggerOptions,
+  defaultLogger,
+  createFileLogger,
+  LoggerConfig,
+  Redactor,
+  RedactionOptions,
+  redactLogger,
+} from './logging.js';
 export { getVersion } from './version.js';
@@ -0,0 +1,167 @@
+// src/instrumentation.ts
+
+export type AttributeValue = string | number | boolean;
+
+export interface Attributes {
+  [name: string]: AttributeValue | undefined;
+}
+
+/**
+ * Receives the store's counters and histograms. Adapt it to a metrics library
+ * such as OpenTelemetry or prom-client; attributes with an `undefined` value
+ * should be dropped.
+ *
+ * @remarks
+ * The store records:
+ * - `s3store.operations` (counter): one per operation, by `operation`,
+ *   `outcome` and, on failure, `error` (the error class, e.g. `DecryptionError`).
+ * - `s3store.operation.duration` (histogram, ms): by `operation` and `outcome`.
+ * - `s3store.phase.duration` (histogram, ms): the time `put` and `get` spend
+ *   in each `phase`: `crypto` (encryption and compression) or `storage` (the
+ *   backend, i.e. the network for S3).
+ * - `s3store.bytes.in` and `s3store.bytes.out` (counters): plaintext bytes
+ *   written and read, by `operation`, when known.
+ * - `s3store.retries` (counter): S3 requests retried, by S3 `operation`.
+ * - `s3store.cache.hits` and `s3store.cache.misses` (counters): `get` calls
+ *   served from the read cache or not, by `operation`; hits are also by
+ *   `revalidated`, true when a conditional request confirmed the entry.
+ */
+export interface Metrics {
+  /** Adds `value` to a counter. */
+  increment(name: string, value: number, attributes: Attributes): void;
+  /** Records one value of a histogram, such as a duration. */
+  record(name: string, value: number, attributes: Attributes): void;
+}
+
+/**
+ * A span as the store uses it; an OpenTelemetry `Span` satisfies it.
+ * `setStatus` takes OpenTelemetry's `SpanStatusCode`: 1 for OK, 2 for error.
+ */
+export interface Span {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Starts one span per store operation, named `s3store.<operation>`. An
+ * OpenTelemetry `Tracer`, e.g. from `trace.getTracer('secure-s3-store')`,
+ * can be passed as is.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: Attributes }): Span;
+}
+
+const noopSpan: Span = {
+  setAttribute: () => noopSpan,
+  recordException: () => undefined,
+  setStatus: () => noopSpan,
+  end: () => undefined,
+};
+
+/** Discards every measurement. The default `metrics`. */
+export const noopMetrics: Metrics = {
+  increment: () => undefined,
+  record: () => undefined,
+};
+
+/** Starts spans that record nothing. The default `tracer`. */
+export const noopTracer: Tracer = {
+  startSpan: () => noopSpan,
+};
+
+/** A counter increment or histogram value recorded by `InMemoryCollector`. */
+export interface Measurement {
+  name: string;
+  value: number;
+  attributes: Attributes;
+}
+
+/** A span recorded by `InMemoryCollector`. */
+export interface RecordedSpan {
+  name: string;
+  attributes: Attributes;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+/**
+ * Keeps every measurement and span in memory, for tests and debugging.
+ *
+ * @example
+ * ```typescript
+ * const collector = new InMemoryCollector();
+ * const store = new SecureS3Store({ ...config, metrics: collector, tracer: collector });
+ * await store.get(path);
+ * collector.sum('s3store.operations', { operation: 'get', outcome: 'success' }); // 1
+ * ```
+ */
+export class InMemoryCollector implements Metrics, Tracer {
+  readonly counters: Measurement[] = [];
+  readonly histograms: Measurement[] = [];
+  readonly spans: RecordedSpan[] = [];
+
+  increment(name: string, value: number, attributes: Attributes): void {
+    this.counters.push({ name, value, attributes });
+  }
+
+  record(name: string, value: number, attributes: Attributes): void {
+    this.histograms.push({ name, value, attributes });
+  }
+
+  startSpan(name: string, options: { attributes?: Attributes } = {}): Span {
+    const recorded: RecordedSpan = {
+      name,
+      attributes: { ...options.attributes },
+      exceptions: [],
+      ended: false,
+    };
+    this.spans.push(recorded);
+    const span: Span = {
+      setAttribute: (key, value) => {
+        recorded.attributes[key] = value;
+        return span;
+      },
+      recordException: (exception) => {
+        recorded.exceptions.push(exception);
+      },
+      setStatus: (status) => {
+        recorded.status = status;
+        return span;
+      },
+      end: () => {
+        recorded.ended = true;
+      },
+    };
+    return span;
+  }
+
+  /** The total of a counter over the measurements that match `attributes`. */
+  sum(name: string, attributes: Attributes = {}): number {
+    return this.counters
+      .filter((entry) => entry.name === name && matches(entry, attributes))
+      .reduce((total, entry) => total + entry.value, 0);
+  }
+
+  /** The recorded values of a histogram that match `attributes`. */
+  values(name: string, attributes: Attributes = {}): number[] {
+    return this.histograms
+      .filter((entry) => entry.name === name && matches(entry, attributes))
+      .map((entry) => entry.value);
+  }
+
+  /** Forgets everything recorded so far. */
+  reset(): void {
+    this.counters.length = 0;
+    this.histograms.length = 0;
+    this.spans.length = 0;
+  }
+}
+
+function matches(entry: Measurement, attributes: Attributes): boolean {
+  return Object.entries(attributes).every(
+    ([name, value]) => entry.attributes[name] === value,
+  );
+}
@@ -0,0 +1,194 @@
+// src/keyProvider.ts
+import fs from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { ValidationError, DecryptionError } from './errors.js';
+
+/** A freshly generated data key together with its wrapped form. */
+export interface DataKey {
+  /** The identifier of the key-encryption key that wrapped the data key. */
+  keyId: string;
+  /** The plaintext 32-byte data key. Never persisted. */
+  dataKey: Buffer;
+  /** The data key encrypted under the key-encryption key. */
+  wrappedKey: Buffer;
+}
+
+/**
+ * Supplies per-object data keys for envelope encryption and unwraps them again
+ * on read. Implementations hold (or call out to a service holding) the
+ * long-lived key-encryption keys.
+ */
+export interface KeyProvider {
+  /** The key-encryption key used to wrap new data keys. */
+  readonly primaryKeyId: string;
+  /** Generates a random data key and wraps it with `primaryKeyId`. */
+  generateDataKey(): Promise<DataKey>;
+  /**
+   * Unwraps a data key previously returned by `generateDataKey`.
+   * @throws {DecryptionError} If the key is unknown or the wrapped key is invalid.
+   */
+  unwrapDataKey(keyId: string, wrappedKey: Buffer): Promise<Buffer>;
+}
+
+const dataKeyLength = 32;
+const wrapIvLength = 12;
+const wrapTagLength = 16;
+
+/**
+ * Wraps data keys locally with AES-256-GCM under a set of static hex keys.
+ *
+ * @remarks
+ * A wrapped key is `[IV (12 bytes)][AuthTag (16 bytes)][Encrypted Key]`, with
+ * the key identifier authenticated as additional data.
+ */
+export class StaticKeyProvider implements KeyProvider {
+  readonly primaryKeyId: string;
+  private readonly keys: Map<string, Buffer>;
+
+  /**
+   * @param keys - Key-encryption keys by identifier, as 64-character hex strings.
+   * @param primaryKeyId - The identifier of the key used to wrap new data keys.
+   */
+  constructor(keys: { [keyId: string]: string }, primaryKeyId: string) {
+    if (!keys || !keys[primaryKeyId]) {
+      throw new ValidationError(
+        'The `primaryKeyId` must be a valid key identifier present in the key-encryption keys.',
+      );
+    }
+
+    this.keys = new Map();
+    for (const keyId in keys) {
+      if (!/^[0-9a-fA-F]{64}$/.test(keys[keyId])) {
+        throw new ValidationError(
+          `Invalid key-encryption key for "${keyId}": Must be a 64-character hex string.`,
+        );
+      }
+      this.keys.set(keyId, Buffer.from(keys[keyId], 'hex'));
+    }
+    this.primaryKeyId = primaryKeyId;
+  }
+
+  async generateDataKey(): Promise<DataKey> {
+    const dataKey = randomBytes(dataKeyLength);
+    const iv = randomBytes(wrapIvLength);
+    const cipher = createCipheriv(
+      'aes-256-gcm',
+      this.keys.get(this.primaryKeyId)!,
+      iv,
+    );
+    cipher.setAAD(Buffer.from(this.primaryKeyId, 'utf8'));
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return {
+      keyId: this.primaryKeyId,
+      dataKey,
+      wrappedKey: Buffer.concat([iv, cipher.getAuthTag(), encrypted]),
+    };
+  }
+
+  async unwrapDataKey(keyId: string, wrappedKey: Buffer): Promise<Buffer> {
+    const kek = this.keys.get(keyId);
+    if (!kek) {
+      throw new DecryptionError(`No key-encryption key found for: ${keyId}`);
+    }
+
+    const tagOffset = wrapIvLength;
+    const encryptedOffset = tagOffset + wrapTagLength;
+    try {
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        kek,
+        wrappedKey.subarray(0, tagOffset),
+      );
+      decipher.setAAD(Buffer.from(keyId, 'utf8'));
+      decipher.setAuthTag(wrappedKey.subarray(tagOffset, encryptedOffset));
+      return Buffer.concat([
+        decipher.update(wrappedKey.subarray(encryptedOffset)),
+        decipher.final(),
+      ]);
+    } catch {
+      throw new DecryptionError(`Unable to unwrap data key with: ${keyId}`);
+    }
+  }
+}
+
+/**
+ * A `StaticKeyProvider` whose keys are read from a local JSON keyring file of
+ * the form `{ "primaryKeyId": "k2", "keys": { "k1": "<hex>", "k2": "<hex>" } }`.
+ */
+export class FileKeyProvider extends StaticKeyProvider {
+  /**
+   * @param filePath - The path to the keyring file.
+   * @throws {ValidationError} If the file cannot be read or is not a valid keyring.
+   */
+  constructor(filePath: string) {
+    let keyring: { primaryKeyId?: string; keys?: { [keyId: string]: string } };
+    try {
+      keyring = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (err) {
+      throw new ValidationError(
+        `Unable to read keyring file "${filePath}": ${(err as Error).message}`,
+      );
+    }
+    super(keyring.keys || {}, keyring.primaryKeyId || '');
+  }
+}
+
+/**
+ * The two calls a remote key service such as AWS KMS or HashiCorp Vault's
+ * transit engine must provide. The key material never leaves the service.
+ */
+export interface KeyWrappingService {
+  encrypt(keyId: string, plaintext: Buffer): Promise<Buffer>;
+  decrypt(keyId: string, ciphertext: Buffer): Promise<Buffer>;
+}
+
+/**
+ * Generates data keys locally and wraps them with a remote key service.
+ *
+ * @example
+ * ```typescript
+ * const kms = new KMSClient({ region: 'us-east-1' });
+ * const provider = new RemoteKeyProvider('alias/secure-store', {
+ *   encrypt: async (KeyId, Plaintext) =>
+ *     Buffer.from((await kms.send(new EncryptCommand({ KeyId, Plaintext }))).CiphertextBlob!),
+ *   decrypt: async (KeyId, CiphertextBlob) =>
+ *     Buffer.from((await kms.send(new DecryptCommand({ KeyId, CiphertextBlob }))).Plaintext!),
+ * });
+ * ```
+ */
+export class RemoteKeyProvider implements KeyProvider {
+  /**
+   * @param primaryKeyId - The remote key used to wrap new data keys.
+   * @param service - The adapter for the remote key service.
+   */
+  constructor(
+    readonly primaryKeyId: string,
+    private readonly service: KeyWrappingService,
+  ) {
+    if (!primaryKeyId) {
+      throw new ValidationError('The `primaryKeyId` must not be empty.');
+    }
+  }
+
+  async generateDataKey(): Promise<DataKey> {
+    const dataKey = randomBytes(dataKeyLength);
+    const wrappedKey = await this.service.encrypt(this.primaryKeyId, dataKey);
+    return { keyId: this.primaryKeyId, dataKey, wrappedKey };
+  }
+
+  async unwrapDataKey(keyId: string, wrappedKey: Buffer): Promise<Buffer> {
+    let dataKey: Buffer;
+    try {
+      dataKey = await this.service.decrypt(keyId, wrappedKey);
+    } catch (err) {
+      throw new DecryptionError(
+        `Unable to unwrap data key with ${keyId}: ${(err as Error).message}`,
+      );
+    }
+    if (dataKey.length !== dataKeyLength) {
+      throw new DecryptionError(`Unwrapped data key for ${keyId} is invalid.`);
+    }
+    return dataKey;
+  }
+}
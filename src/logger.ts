@@ -3,18 +3,34 @@ import winston from 'winston';
 import 'winston-daily-rotate-file';
 import fs from 'fs';
 import path from 'path';
+import type { LoggerConfig } from './logging.js';
 
-export interface LoggerConfig {
-  consoleLogLevel?: string;
-  fileLogLevel?: string;
-  logDir?: string;
-}
+export {
+  Logger,
+  LogMeta,
+  LogLevel,
+  createConsoleLogger,
+  ConsoleLoggerOptions,
+  defaultLogger,
+  createFileLogger,
+  LoggerConfig,
+  Redactor,
+  RedactionOptions,
+  redactLogger,
+} from './logging.js';
 
+/**
+ * Creates a winston logger that writes to the console and to a daily rotating
+ * file, kept for 14 days. Nothing is created until this is called.
+ * Requires the `winston` and `winston-daily-rotate-file` packages, which
+ * this entry point loads; the main entry point never does.
+ */
 export function configureLogger(config: LoggerConfig = {}): winston.Logger {
   const {
     consoleLogLevel = 'error',
     fileLogLevel = 'info',
     logDir = 'logs',
+    filename = 'salt-pipe-%DATE%.log',
   } = config;
 
   // Create the log directory if it does not exist
@@ -24,7 +40,7 @@ export function configureLogger(config: LoggerConfig = {}): winston.Logger {
 
   const dailyRotateFileTransport = new winston.transports.DailyRotateFile({
     level: fileLogLevel,
-    filename: path.join(logDir, 'salt-pipe-%DATE%.log'),
+    filename: path.join(logDir, filename),
     datePattern: 'YYYY-MM-DD',
     zippedArchive: true,
     maxSize: '20m',
@@ -59,5 +75,3 @@ export function configureLogger(config: LoggerConfig = {}): winston.Logger {
 
   return logger;
 }
-
-export default configureLogger();
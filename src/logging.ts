@@ -0,0 +1,237 @@
+// src/logging.ts
+
+/** Structured details logged with a message, such as `{ error }`. */
+export interface LogMeta {
+  [name: string]: unknown;
+}
+
+/**
+ * What the store needs from a logger. A winston logger, a pino logger wrapped
+ * to take `(message, meta)`, or `console` can be passed as is.
+ */
+export interface Logger {
+  error(message: string, meta?: LogMeta): void;
+  warn(message: string, meta?: LogMeta): void;
+  info(message: string, meta?: LogMeta): void;
+  debug(message: string, meta?: LogMeta): void;
+}
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+const levels: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+export interface ConsoleLoggerOptions {
+  /** The least severe level written. Defaults to `error`. */
+  level?: LogLevel;
+  /**
+   * Where lines are written, e.g. `process.stderr`. Defaults to the `console`
+   * method of each level.
+   */
+  stream?: NodeJS.WritableStream;
+}
+
+/**
+ * Creates a logger that writes one line per message to the console, with
+ * its metadata as JSON. Errors are written with their name and message.
+ */
+export function createConsoleLogger(
+  options: ConsoleLoggerOptions = {},
+): Logger {
+  const enabled = levels.slice(0, levels.indexOf(options.level || 'error') + 1);
+  const write =
+    (level: LogLevel) =>
+    (message: string, meta?: LogMeta): void => {
+      if (!enabled.includes(level)) {
+        return;
+      }
+      const details = meta ? ` ${JSON.stringify(meta, errorReplacer)}` : '';
+      const line = `${new Date().toISOString()} ${level}: ${message}${details}`;
+      if (options.stream) {
+        options.stream.write(`${line}\n`);
+      } else {
+        console[level](line);
+      }
+    };
+  return {
+    error: write('error'),
+    warn: write('warn'),
+    info: write('info'),
+    debug: write('debug'),
+  };
+}
+
+let sharedLogger: Logger | undefined;
+
+/**
+ * The logger of stores created without one: console only, errors only.
+ * Created on first use, so that importing the package has no side effects.
+ */
+export function defaultLogger(): Logger {
+  sharedLogger ??= createConsoleLogger();
+  return sharedLogger;
+}
+
+export interface LoggerConfig {
+  consoleLogLevel?: string;
+  fileLogLevel?: string;
+  /** The directory of the log files, created if missing. Defaults to `logs`. */
+  logDir?: string;
+  /**
+   * The name of the log files in `logDir`, where `%DATE%` is replaced by the
+   * day. Defaults to `salt-pipe-%DATE%.log`.
+   */
+  filename?: string;
+}
+
+/**
+ * Creates a logger that writes through `configureLogger`, to the console and
+ * to daily rotating files. winston is loaded, and the log directory created,
+ * when the first message is logged, so that stores that never log to files
+ * do not need winston installed.
+ *
+ * @remarks
+ * Messages are passed on in order once winston has loaded. If it cannot be
+ * loaded, they are written to the console instead, after an error saying so.
+ */
+export function createFileLogger(config: LoggerConfig = {}): Logger {
+  let loading: Promise<Logger> | undefined;
+  const load = () =>
+    (loading ??= import('./logger.js').then(
+      ({ configureLogger }) => configureLogger(config),
+      (error) => {
+        const fallback = createConsoleLogger();
+        fallback.error(
+          'Unable to load winston for file logging; logging errors to the console.',
+          { error },
+        );
+        return fallback;
+      },
+    ));
+  const write =
+    (level: LogLevel) =>
+    (message: string, meta?: LogMeta): void => {
+      void load().then((logger) => logger[level](message, meta));
+    };
+  return {
+    error: write('error'),
+    warn: write('warn'),
+    info: write('info'),
+    debug: write('debug'),
+  };
+}
+
+export interface RedactionOptions {
+  /**
+   * Mask the key of every object path the store logs, keeping the bucket:
+   * `my-bucket/[REDACTED]`. Error messages, which may name keys too, are
+   * dropped from the metadata, keeping the error's name and code.
+   */
+  paths?: boolean;
+  /** Metadata fields whose values are masked, at any depth. */
+  fields?: string[];
+  /** Masked wherever they match in messages and metadata strings. */
+  patterns?: RegExp[];
+  /** What masked values are replaced with. Defaults to `[REDACTED]`. */
+  replacement?: string;
+}
+
+/** The deepest metadata is searched for fields and patterns. */
+const maxDepth = 5;
+
+/** Masks paths, fields and patterns before they are logged. */
+export class Redactor {
+  private readonly paths: boolean;
+  private readonly fields: Set<string>;
+  private readonly patterns: RegExp[];
+  private readonly replacement: string;
+
+  constructor(options: RedactionOptions = {}) {
+    this.paths = options.paths || false;
+    this.fields = new Set(options.fields);
+    this.patterns = (options.patterns || []).map(
+      (pattern) =>
+        new RegExp(
+          pattern.source,
+          pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`,
+        ),
+    );
+    this.replacement = options.replacement ?? '[REDACTED]';
+  }
+
+  /** An object path as it may be logged: unchanged, or with its key masked. */
+  path(path: string): string {
+    const slash = path.indexOf('/');
+    if (!this.paths || slash < 0) {
+      return path;
+    }
+    return `${path.slice(0, slash + 1)}${this.replacement}`;
+  }
+
+  /** Masks the patterns in a string. */
+  text(text: string): string {
+    return this.patterns.reduce(
+      (masked, pattern) => masked.replace(pattern, this.replacement),
+      text,
+    );
+  }
+
+  /** Copies metadata with its fields, patterns and error messages masked. */
+  meta(meta: LogMeta): LogMeta {
+    return this.value(meta, 0) as LogMeta;
+  }
+
+  private value(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') {
+      return this.text(value);
+    }
+    if (value instanceof Error) {
+      const { code, statusCode } = value as {
+        code?: unknown;
+        statusCode?: unknown;
+      };
+      return {
+        name: value.name,
+        ...(!this.paths && { message: this.text(value.message) }),
+        ...(code !== undefined && { code }),
+        ...(statusCode !== undefined && { statusCode }),
+      };
+    }
+    if (typeof value !== 'object' || value === null || depth >= maxDepth) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.value(item, depth + 1));
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [
+        name,
+        this.fields.has(name) ? this.replacement : this.value(item, depth + 1),
+      ]),
+    );
+  }
+}
+
+/**
+ * Wraps a logger so that messages and metadata are masked by `redactor`
+ * before they reach it.
+ */
+export function redactLogger(logger: Logger, redactor: Redactor): Logger {
+  const write =
+    (level: LogLevel) =>
+    (message: string, meta?: LogMeta): void =>
+      logger[level](redactor.text(message), meta && redactor.meta(meta));
+  return {
+    error: write('error'),
+    warn: write('warn'),
+    info: write('info'),
+    debug: write('debug'),
+  };
+}
+
+/** Writes errors, which `JSON.stringify` renders as `{}`, by name and message. */
+function errorReplacer(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+}
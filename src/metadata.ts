@@ -0,0 +1,93 @@
+// src/metadata.ts
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+import type { CipherGCM, DecipherGCM } from 'crypto';
+import { ValidationError, DecryptionError } from './errors.js';
+
+/** User metadata stored, encrypted, in the object header. */
+export interface ObjectMetadata {
+  /** The media type of the plaintext, e.g. `application/json`. */
+  contentType?: string;
+  /** Application-defined name/value pairs. */
+  metadata?: { [name: string]: string };
+}
+
+const ivLength = 12;
+const authTagLength = 16;
+const keyInfo = 'secure-s3-store user metadata';
+
+/** Derives a separate key so metadata and body never share a GCM key. */
+function metadataKey(key: Buffer): Buffer {
+  return Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), keyInfo, 32));
+}
+
+/**
+ * Encrypts user metadata as `[IV (12)][AuthTag (16)][encrypted JSON]` with a
+ * key derived from the object key, authenticating the path (if given).
+ * @param key - The key the object body is encrypted with.
+ * @param metadata - The metadata to seal.
+ * @param path - The `bucket/key` path the object is bound to.
+ * @throws {ValidationError} If a metadata value is not a string.
+ */
+export function sealMetadata(
+  key: Buffer,
+  metadata: ObjectMetadata,
+  path?: string,
+): Buffer {
+  const values = metadata.metadata || {};
+  for (const name in values) {
+    if (typeof values[name] !== 'string') {
+      throw new ValidationError(
+        `Metadata value for "${name}" must be a string.`,
+      );
+    }
+  }
+
+  const iv = randomBytes(ivLength);
+  const cipher = createCipheriv(
+    'aes-256-gcm',
+    metadataKey(key),
+    iv,
+  ) as CipherGCM;
+  cipher.setAAD(Buffer.from(path ?? '', 'utf8'));
+  const encrypted = Buffer.concat([
+    cipher.update(JSON.stringify(metadata), 'utf8'),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+/**
+ * Decrypts user metadata sealed by `sealMetadata`.
+ * @throws {DecryptionError} If the metadata fails authentication.
+ */
+export function openMetadata(
+  key: Buffer,
+  sealed: Buffer,
+  path?: string,
+): ObjectMetadata {
+  const tagOffset = ivLength;
+  const encryptedOffset = tagOffset + authTagLength;
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      metadataKey(key),
+      sealed.subarray(0, tagOffset),
+    ) as DecipherGCM;
+    decipher.setAAD(Buffer.from(path ?? '', 'utf8'));
+    decipher.setAuthTag(sealed.subarray(tagOffset, encryptedOffset));
+    const json = Buffer.concat([
+      decipher.update(sealed.subarray(encryptedOffset)),
+      decipher.final(),
+    ]);
+    return JSON.parse(json.toString('utf8'));
+  } catch {
+    throw new DecryptionError(
+      'Unable to decrypt object metadata: authentication failed.',
+    );
+  }
+}
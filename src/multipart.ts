@@ -0,0 +1,197 @@
+// src/multipart.ts
+import { Readable } from 'stream';
+import {
+  S3Client,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CompletedPart,
+} from '@aws-sdk/client-s3';
+import { Logger } from './logging.js';
+import { ValidationError } from './errors.js';
+import { RetryOptions, withRetry } from './retry.js';
+
+/** The smallest part size S3 accepts for every part but the last. */
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+/** The largest number of parts S3 accepts in one multipart upload. */
+export const MAX_PARTS = 10000;
+
+export interface UploadProgress {
+  /** The number of encrypted bytes uploaded so far. */
+  loaded: number;
+  /** The total number of encrypted bytes, if known in advance. */
+  total?: number;
+  /** The part number that just completed (always 1 for a single PutObject). */
+  part: number;
+}
+
+export type ProgressListener = (progress: UploadProgress) => void;
+
+export interface MultipartOptions {
+  partSize: number;
+  concurrency: number;
+  total?: number;
+  onProgress?: ProgressListener;
+  logger: Logger;
+  /** How each request is retried, timed out and cancelled. */
+  retry?: RetryOptions;
+  /** Completes the upload only if the current object has this ETag. */
+  ifMatch?: string;
+  /** With `*`, completes the upload only if no object exists under the key. */
+  ifNoneMatch?: string;
+}
+
+interface Part {
+  partNumber: number;
+  body: Buffer;
+}
+
+/**
+ * Uploads a buffer or stream to S3 with `CreateMultipartUpload`, `UploadPart`
+ * and `CompleteMultipartUpload`.
+ *
+ * @remarks
+ * Up to `concurrency` parts are uploaded at once, so at most
+ * `(concurrency + 1) * partSize` bytes are held in memory when reading from a
+ * stream. If any part fails, the remaining workers stop, the upload is aborted
+ * so no orphaned parts are left behind, and the first error is rethrown.
+ * When the total size is known the part size is raised if needed to stay
+ * within S3's 10,000 part limit. Each request is retried according to
+ * `options.retry`; parts are buffered, so they can be sent again.
+ */
+export async function multipartUpload(
+  client: S3Client,
+  bucket: string,
+  key: string,
+  body: Buffer | Readable,
+  options: MultipartOptions,
+): Promise<void> {
+  const { concurrency, total, onProgress, logger } = options;
+  const retry = { logger, ...options.retry };
+  const partSize =
+    total === undefined
+      ? options.partSize
+      : Math.max(options.partSize, Math.ceil(total / MAX_PARTS));
+
+  const create = new CreateMultipartUploadCommand({ Bucket: bucket, Key: key });
+  const { UploadId } = await withRetry(
+    'CreateMultipartUpload',
+    (abortSignal) => client.send(create, { abortSignal }),
+    retry,
+  );
+
+  const completed: CompletedPart[] = [];
+  const iterator = readParts(body, partSize)[Symbol.asyncIterator]();
+  let loaded = 0;
+  let failure: unknown;
+
+  const worker = async () => {
+    while (failure === undefined) {
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          return;
+        }
+        const { partNumber, body: partBody } = next.value;
+        const command = new UploadPartCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId,
+          PartNumber: partNumber,
+          Body: partBody,
+        });
+        const { ETag } = await withRetry(
+          'UploadPart',
+          (abortSignal) => client.send(command, { abortSignal }),
+          retry,
+        );
+        completed.push({ ETag, PartNumber: partNumber });
+        loaded += partBody.length;
+        onProgress?.({ loaded, total, part: partNumber });
+      } catch (err) {
+        failure ??= err;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  try {
+    if (failure !== undefined) {
+      throw failure;
+    }
+    completed.sort((a, b) => a.PartNumber! - b.PartNumber!);
+    const complete = new CompleteMultipartUploadCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId,
+      MultipartUpload: { Parts: completed },
+      IfMatch: options.ifMatch,
+      IfNoneMatch: options.ifNoneMatch,
+    });
+    await withRetry(
+      'CompleteMultipartUpload',
+      (abortSignal) => client.send(complete, { abortSignal }),
+      retry,
+    );
+  } catch (err) {
+    // Not cancellable, so that an aborted upload still leaves no parts behind.
+    await client
+      .send(
+        new AbortMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId,
+        }),
+      )
+      .catch((abortErr) =>
+        logger.warn(
+          `Failed to abort multipart upload ${UploadId} in ${bucket}`,
+          {
+            error: abortErr,
+          },
+        ),
+      );
+    throw err;
+  }
+}
+
+async function* readParts(
+  body: Buffer | Readable,
+  partSize: number,
+): AsyncGenerator<Part> {
+  let partNumber = 0;
+  const nextPart = (partBody: Buffer): Part => {
+    partNumber++;
+    if (partNumber > MAX_PARTS) {
+      throw new ValidationError(
+        `Upload exceeds the S3 limit of ${MAX_PARTS} parts of ${partSize} bytes.`,
+      );
+    }
+    return { partNumber, body: partBody };
+  };
+
+  if (Buffer.isBuffer(body)) {
+    for (let offset = 0; offset < body.length; offset += partSize) {
+      yield nextPart(body.subarray(offset, offset + partSize));
+    }
+    return;
+  }
+
+  let chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of body) {
+    chunks.push(chunk);
+    size += chunk.length;
+    while (size >= partSize) {
+      const buffered = Buffer.concat(chunks);
+      chunks = [buffered.subarray(partSize)];
+      size = buffered.length - partSize;
+      yield nextPart(buffered.subarray(0, partSize));
+    }
+  }
+  if (size > 0) {
+    yield nextPart(Buffer.concat(chunks));
+  }
+}
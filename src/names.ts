@@ -0,0 +1,125 @@
+// src/names.ts
+import { createCipheriv, createHmac, hkdfSync, timingSafeEqual } from 'crypto';
+import { DecryptionError } from './errors.js';
+
+const sivLength = 16;
+const hkdfInfo = 'secure-s3-store object names';
+
+/**
+ * Encrypts object keys deterministically, one `/`-separated segment at a time,
+ * so that the same plaintext key always maps to the same stored key and
+ * folders still group their objects.
+ *
+ * @remarks
+ * Each segment is sealed SIV-style: the synthetic IV is the first 16 bytes of
+ * an HMAC-SHA256 over the bucket, the plaintext of the segments before it and
+ * the segment itself, and the segment is encrypted with AES-256-CTR under that
+ * IV. The stored segment is `base64url([SIV (16)][ciphertext])`. The HMAC
+ * doubles as an authentication tag, so a tampered or foreign name is
+ * rejected. Equal names in different folders encrypt differently, but an
+ * observer still sees the shape of the tree, the length of each name and
+ * which objects share a name. Empty segments stay empty, so a prefix ending
+ * with `/` encrypts to a prefix ending with `/`.
+ *
+ * The MAC and encryption keys are derived with HKDF-SHA256 from the name key.
+ */
+export class NameCipher {
+  private readonly macKey: Buffer;
+  private readonly encKey: Buffer;
+
+  /**
+   * @param kid - The KID of the name key, recorded in each object header.
+   * @param key - The 32-byte name key.
+   */
+  constructor(
+    readonly kid: string,
+    key: Buffer,
+  ) {
+    const derived = Buffer.from(
+      hkdfSync('sha256', key, Buffer.alloc(0), hkdfInfo, 64),
+    );
+    this.macKey = derived.subarray(0, 32);
+    this.encKey = derived.subarray(32);
+  }
+
+  /**
+   * Encrypts every segment of a key or of a prefix ending with `/`.
+   * @param bucket - The bucket, which is authenticated with each segment.
+   * @param key - The plaintext key.
+   */
+  encrypt(bucket: string, key: string): string {
+    const plain = key.split('/');
+    return plain
+      .map((segment, index) =>
+        segment
+          ? this.seal(this.context(bucket, plain, index), segment)
+          : segment,
+      )
+      .join('/');
+  }
+
+  /**
+   * Decrypts every segment of a key or prefix written by `encrypt`.
+   * @param bucket - The bucket the key was read from.
+   * @param stored - The stored key.
+   * @throws {DecryptionError} If a segment was not encrypted with this key,
+   * for this bucket and folder.
+   */
+  decrypt(bucket: string, stored: string): string {
+    const plain: string[] = [];
+    for (const segment of stored.split('/')) {
+      plain.push(
+        segment
+          ? this.open(this.context(bucket, plain, plain.length), segment)
+          : segment,
+      );
+    }
+    return plain.join('/');
+  }
+
+  /** The bucket and the plaintext folders above segment `index`. */
+  private context(bucket: string, plain: string[], index: number): Buffer {
+    return Buffer.from(`${bucket}/${plain.slice(0, index).join('/')}`, 'utf8');
+  }
+
+  private seal(context: Buffer, segment: string): string {
+    const plaintext = Buffer.from(segment, 'utf8');
+    const siv = this.syntheticIv(context, plaintext);
+    const cipher = createCipheriv('aes-256-ctr', this.encKey, siv);
+    return Buffer.concat([
+      siv,
+      cipher.update(plaintext),
+      cipher.final(),
+    ]).toString('base64url');
+  }
+
+  private open(context: Buffer, segment: string): string {
+    const data = Buffer.from(segment, 'base64url');
+    if (data.length < sivLength || data.toString('base64url') !== segment) {
+      throw new DecryptionError(`Not an encrypted name: ${segment}`);
+    }
+    const siv = data.subarray(0, sivLength);
+    const decipher = createCipheriv('aes-256-ctr', this.encKey, siv);
+    const plaintext = Buffer.concat([
+      decipher.update(data.subarray(sivLength)),
+      decipher.final(),
+    ]);
+    if (!timingSafeEqual(siv, this.syntheticIv(context, plaintext))) {
+      throw new DecryptionError(
+        'Unable to decrypt object name: authentication failed.',
+      );
+    }
+    return plaintext.toString('utf8');
+  }
+
+  private syntheticIv(context: Buffer, plaintext: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(context.length);
+    return createHmac('sha256', this.macKey)
+      .update(length)
+      .update(context)
+      .update(plaintext)
+      .digest()
+      .subarray(0, sivLength);
+  }
+}
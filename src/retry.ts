@@ -0,0 +1,175 @@
+// src/retry.ts
+import { setTimeout as sleep } from 'timers/promises';
+import { Logger } from './logging.js';
+import { errorDetails } from './errors.js';
+import { AuditContext } from './audit.js';
+
+/** How failed S3 requests are retried. */
+export interface RetryPolicy {
+  /** The most attempts per request, including the first. Defaults to 3. */
+  maxAttempts?: number;
+  /**
+   * The delay in milliseconds before the first retry, doubled for each retry
+   * after it. The actual delay is a random value up to this bound (full
+   * jitter), so that many clients do not retry in lockstep. Defaults to 100.
+   */
+  baseDelay?: number;
+  /** The upper bound of any delay in milliseconds. Defaults to 5000. */
+  maxDelay?: number;
+  /** Decides whether a failed attempt is retried. Defaults to `isRetryableError`. */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/** Cancellation and timeout settings for a single store call. */
+export interface RequestOptions {
+  /**
+   * Aborts the call. Requests in flight are cancelled and the call fails with
+   * an `S3Error` whose `code` is `AbortError`.
+   */
+  signal?: AbortSignal;
+  /**
+   * The milliseconds each S3 request may take before it is aborted and, if
+   * attempts remain, retried. Overrides the store's `timeout`.
+   */
+  timeout?: number;
+  /** Who is making the call, recorded in its audit events. See `onAudit`. */
+  audit?: AuditContext;
+}
+
+export interface RetryOptions extends RequestOptions {
+  policy?: RetryPolicy;
+  logger?: Logger;
+  /** Called before each retry, with the attempt that failed. */
+  onRetry?: (operation: string, attempt: number, error: unknown) => void;
+}
+
+const retryableStatusCodes = new Set([429, 500, 502, 503, 504]);
+
+const retryableCodes = new Set([
+  // S3 and AWS throttling and server-side errors.
+  'SlowDown',
+  'Throttling',
+  'ThrottlingException',
+  'TooManyRequestsException',
+  'RequestLimitExceeded',
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'InternalError',
+  'ServiceUnavailable',
+  // Network errors, and attempts aborted by the store's timeout.
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'TimeoutError',
+]);
+
+/**
+ * Returns true for errors that are likely to succeed on a later attempt:
+ * throttling, 5xx responses, connection resets and timeouts.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const { statusCode, code } = errorDetails(error);
+  return (
+    (statusCode !== undefined && retryableStatusCodes.has(statusCode)) ||
+    (code !== undefined && retryableCodes.has(code)) ||
+    !!(error as { $retryable?: unknown } | undefined)?.$retryable
+  );
+}
+
+/**
+ * Returns the delay before the retry that follows `attempt`, with full jitter.
+ * @param attempt - The number of the attempt that failed, starting at 1.
+ * @param policy - The retry policy.
+ */
+export function backoffDelay(
+  attempt: number,
+  policy: RetryPolicy = {},
+): number {
+  const { baseDelay = 100, maxDelay = 5000 } = policy;
+  return Math.random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+}
+
+/**
+ * Calls `fn` until it succeeds, the error is not retryable, or the policy's
+ * attempts run out.
+ *
+ * @remarks
+ * Each attempt gets its own `AbortSignal`, which fires when `options.signal`
+ * is aborted or the attempt exceeds `options.timeout`. The error that is
+ * finally thrown is the caller's abort reason, a `TimeoutError`, or the last
+ * error from `fn`, with the number of attempts recorded in its
+ * `$metadata.attempts` as the AWS SDK does.
+ * @param operation - The name of the operation, for logging.
+ * @param fn - Makes one attempt.
+ * @param options - The policy, timeout and signal.
+ */
+export async function withRetry<T>(
+  operation: string,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<T> {
+  const { signal, timeout, policy = {}, logger, onRetry } = options;
+  const maxAttempts = policy.maxAttempts ?? 3;
+  const isRetryable = policy.isRetryable ?? isRetryableError;
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw recordAttempts(signal.reason, attempt - 1);
+    }
+
+    const controller = new AbortController();
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(
+            () =>
+              controller.abort(
+                new DOMException(
+                  `Request timed out after ${timeout}ms`,
+                  'TimeoutError',
+                ),
+              ),
+            timeout,
+          );
+    const attemptSignal = signal
+      ? AbortSignal.any([signal, controller.signal])
+      : controller.signal;
+
+    let error: unknown;
+    try {
+      return await fn(attemptSignal);
+    } catch (err) {
+      // The SDK reports any abort the same way; report why it happened.
+      error = attemptSignal.aborted ? attemptSignal.reason : err;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    recordAttempts(error, attempt);
+    if (signal?.aborted || attempt >= maxAttempts || !isRetryable(error)) {
+      throw error;
+    }
+
+    const delay = Math.round(backoffDelay(attempt, policy));
+    logger?.warn(
+      `S3 ${operation} failed on attempt ${attempt} of ${maxAttempts}, retrying in ${delay}ms`,
+      { error },
+    );
+    onRetry?.(operation, attempt, error);
+    try {
+      await sleep(delay, undefined, { signal });
+    } catch {
+      throw recordAttempts(signal!.reason, attempt);
+    }
+  }
+}
+
+function recordAttempts(error: unknown, attempts: number): unknown {
+  if (typeof error === 'object' && error !== null && !Object.isFrozen(error)) {
+    const target = error as { $metadata?: object };
+    target.$metadata = { ...target.$metadata, attempts };
+  }
+  return error;
+}
@@ -0,0 +1,456 @@
+// src/s3Backend.ts
+import { Readable } from 'stream';
+import {
+  S3Client,
+  S3ClientConfig,
+  PutObjectCommand,
+  CopyObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  ListObjectVersionsCommand,
+} from '@aws-sdk/client-s3';
+import { RequestHandler } from '@aws-sdk/types';
+import {
+  ValidationError,
+  S3Error,
+  NotFoundError,
+  PreconditionFailedError,
+  NotModifiedError,
+  errorDetails,
+} from './errors.js';
+import { multipartUpload, MIN_PART_SIZE } from './multipart.js';
+import { RetryPolicy, RequestOptions, withRetry } from './retry.js';
+import { Metrics, noopMetrics } from './instrumentation.js';
+import { Logger } from './logging.js';
+import {
+  StorageBackend,
+  StoredObject,
+  StoredObjectInfo,
+  StoredListPage,
+  StoredVersion,
+  StoredVersionPage,
+  BackendPutOptions,
+  BackendGetOptions,
+  BackendVersionOptions,
+  BackendListOptions,
+  BackendListVersionsOptions,
+} from './storage.js';
+
+export interface S3BackendConfig {
+  s3Config: S3ClientConfig;
+  requestHandler?: RequestHandler<unknown, unknown, object>;
+  logger: Logger;
+  /** Bodies larger than this many bytes are sent with a multipart upload. Defaults to 16MB. */
+  multipartThreshold?: number;
+  /** The size of each multipart upload part. At least 5MB; defaults to 8MB. */
+  partSize?: number;
+  /** The maximum number of parts uploaded at once. Defaults to 4. */
+  partConcurrency?: number;
+  /** How failed requests are retried. */
+  retry?: RetryPolicy;
+  /** The milliseconds each request may take before it is aborted and retried. */
+  timeout?: number;
+  /** Counts retried requests as `s3store.retries`. */
+  metrics?: Metrics;
+}
+
+/**
+ * Stores objects in S3 or an S3-compatible service.
+ *
+ * @remarks
+ * Every request is retried according to the `retry` policy, so the AWS SDK's
+ * own retries are turned off unless `s3Config.maxAttempts` is set. Bodies
+ * above `multipartThreshold`, or of unknown length, are sent with a multipart
+ * upload.
+ */
+export class S3Backend implements StorageBackend {
+  private readonly s3Client: S3Client;
+  private readonly logger: Logger;
+  private readonly multipartThreshold: number;
+  private readonly partSize: number;
+  private readonly partConcurrency: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly timeout?: number;
+  private readonly metrics: Metrics;
+
+  /**
+   * @param config - The S3 client settings and upload, retry and timeout settings.
+   * @throws {ValidationError} If `partSize` or `partConcurrency` is out of range.
+   */
+  constructor(config: S3BackendConfig) {
+    this.partSize = config.partSize || 8 * 1024 * 1024; // 8MB default
+    if (this.partSize < MIN_PART_SIZE) {
+      throw new ValidationError(
+        `The \`partSize\` must be at least ${MIN_PART_SIZE} bytes.`,
+      );
+    }
+    this.multipartThreshold = config.multipartThreshold || 16 * 1024 * 1024; // 16MB default
+    this.partConcurrency = config.partConcurrency || 4;
+    if (this.partConcurrency < 1) {
+      throw new ValidationError('The `partConcurrency` must be at least 1.');
+    }
+    this.retryPolicy = config.retry || {};
+    this.timeout = config.timeout;
+    this.logger = config.logger;
+    this.metrics = config.metrics || noopMetrics;
+
+    this.s3Client = new S3Client({
+      maxAttempts: 1, // Retried by `send` instead.
+      ...config.s3Config,
+      requestHandler: config.requestHandler,
+    });
+  }
+
+  /**
+   * Sends the body with a single PutObject when its length is known and at or
+   * below `multipartThreshold`, and with a multipart upload otherwise.
+   */
+  async put(
+    bucket: string,
+    key: string,
+    body: Buffer | Readable,
+    options: BackendPutOptions = {},
+  ): Promise<void> {
+    const { contentLength: total, onProgress, signal, timeout } = options;
+    const { ifMatch, ifNoneMatch } = options;
+    const failed = (err: unknown) => {
+      throw S3Backend.isPreconditionFailed(err)
+        ? new PreconditionFailedError(
+            `Precondition failed for ${bucket}/${key}: ${(err as Error).message}`,
+          )
+        : err;
+    };
+    if (total !== undefined && total <= this.multipartThreshold) {
+      const command = new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentLength: total,
+        IfMatch: ifMatch,
+        IfNoneMatch: ifNoneMatch,
+      });
+      await this.send(
+        'PutObject',
+        (abortSignal) => this.s3Client.send(command, { abortSignal }),
+        options,
+        Buffer.isBuffer(body),
+      ).catch(failed);
+      onProgress?.({ loaded: total, total, part: 1 });
+      return;
+    }
+
+    await multipartUpload(this.s3Client, bucket, key, body, {
+      partSize: this.partSize,
+      concurrency: this.partConcurrency,
+      total,
+      onProgress,
+      logger: this.logger,
+      retry: {
+        policy: this.retryPolicy,
+        timeout: timeout ?? this.timeout,
+        signal,
+        onRetry: this.countRetry,
+      },
+      ifMatch,
+      ifNoneMatch,
+    }).catch(failed);
+  }
+
+  async get(
+    bucket: string,
+    key: string,
+    options: BackendGetOptions = {},
+  ): Promise<StoredObject> {
+    const { range, versionId, ifNoneMatch } = options;
+    const command = new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Range: range && `bytes=${range.start}-${range.end}`,
+      VersionId: versionId,
+      IfNoneMatch: ifNoneMatch,
+    });
+    const response = await this.send(
+      'GetObject',
+      (abortSignal) => this.s3Client.send(command, { abortSignal }),
+      options,
+    ).catch((err) => {
+      if (S3Backend.isNotModified(err)) {
+        throw new NotModifiedError(`Object not modified: ${bucket}/${key}`);
+      }
+      throw S3Backend.isMissing(err) ? S3Backend.notFound(bucket, key) : err;
+    });
+    if (!response.Body) {
+      throw S3Backend.notFound(bucket, key);
+    }
+
+    // The total size follows the slash in `bytes 0-4095/12345`.
+    const total = /\/(\d+)$/.exec(response.ContentRange || '');
+    return {
+      body: response.Body as Readable,
+      size: total ? Number(total[1]) : (response.ContentLength ?? 0),
+      lastModified: response.LastModified,
+      etag: response.ETag,
+      versionId: response.VersionId,
+    };
+  }
+
+  async head(
+    bucket: string,
+    key: string,
+    options: BackendVersionOptions = {},
+  ): Promise<StoredObjectInfo> {
+    const command = new HeadObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      VersionId: options.versionId,
+    });
+    const response = await this.send(
+      'HeadObject',
+      (abortSignal) => this.s3Client.send(command, { abortSignal }),
+      options,
+    ).catch((err) => {
+      throw S3Backend.isMissing(err) ? S3Backend.notFound(bucket, key) : err;
+    });
+    return {
+      size: response.ContentLength ?? 0,
+      lastModified: response.LastModified,
+      etag: response.ETag,
+      versionId: response.VersionId,
+    };
+  }
+
+  async delete(
+    bucket: string,
+    key: string,
+    options: BackendVersionOptions = {},
+  ): Promise<void> {
+    const command = new DeleteObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      VersionId: options.versionId,
+    });
+    await this.send(
+      'DeleteObject',
+      (abortSignal) => this.s3Client.send(command, { abortSignal }),
+      options,
+    );
+  }
+
+  /** Sends one `DeleteObjects` request, which accepts up to 1000 keys. */
+  async deleteMany(
+    bucket: string,
+    keys: string[],
+    options: RequestOptions = {},
+  ): Promise<Map<string, Error>> {
+    const command = new DeleteObjectsCommand({
+      Bucket: bucket,
+      Delete: {
+        Objects: keys.map((key) => ({ Key: key })),
+        Quiet: true,
+      },
+    });
+    const response = await this.send(
+      'DeleteObjects',
+      (abortSignal) => this.s3Client.send(command, { abortSignal }),
+      options,
+    );
+
+    const failures = new Map<string, Error>();
+    for (const error of response.Errors || []) {
+      failures.set(
+        error.Key || '',
+        new S3Error(error.Message || error.Code || 'Unknown error', error),
+      );
+    }
+    return failures;
+  }
+
+  async list(
+    bucket: string,
+    options: BackendListOptions,
+  ): Promise<StoredListPage> {
+    const command = new ListObjectsV2Command({
+      Bucket: bucket,
+      Prefix: options.prefix,
+      Delimiter: options.delimiter,
+      ContinuationToken: options.cursor,
+      StartAfter: options.startAfter,
+      MaxKeys: options.pageSize,
+    });
+    const response = await this.send(
+      'ListObjectsV2',
+      (abortSignal) => this.s3Client.send(command, { abortSignal }),
+      options,
+    );
+
+    return {
+      objects: (response.Contents || [])
+        .filter((obj) => obj.Key)
+        .map((obj) => ({
+          key: obj.Key!,
+          size: obj.Size ?? 0,
+          lastModified: obj.LastModified,
+          etag: obj.ETag,
+        })),
+      prefixes: (response.CommonPrefixes || [])
+        .filter((folder) => folder.Prefix)
+        .map((folder) => folder.Prefix!),
+      cursor: response.NextContinuationToken,
+    };
+  }
+
+  /**
+   * Lists versions with `ListObjectVersions`. The cursor holds both the key
+   * and the version id marker.
+   */
+  async listVersions(
+    bucket: string,
+    options: BackendListVersionsOptions,
+  ): Promise<StoredVersionPage> {
+    const marker = options.cursor
+      ? (JSON.parse(options.cursor) as { key: string; versionId?: string })
+      : undefined;
+    const command = new ListObjectVersionsCommand({
+      Bucket: bucket,
+      Prefix: options.prefix,
+      KeyMarker: marker?.key,
+      VersionIdMarker: marker?.versionId,
+      MaxKeys: options.pageSize,
+    });
+    const response = await this.send(
+      'ListObjectVersions',
+      (abortSignal) => this.s3Client.send(command, { abortSignal }),
+      options,
+    );
+
+    const versions: StoredVersion[] = [
+      ...(response.Versions || []).map((version) => ({
+        key: version.Key!,
+        versionId: version.VersionId!,
+        isLatest: !!version.IsLatest,
+        isDeleteMarker: false,
+        size: version.Size ?? 0,
+        lastModified: version.LastModified,
+        etag: version.ETag,
+      })),
+      ...(response.DeleteMarkers || []).map((marker) => ({
+        key: marker.Key!,
+        versionId: marker.VersionId!,
+        isLatest: !!marker.IsLatest,
+        isDeleteMarker: true,
+        size: 0,
+        lastModified: marker.LastModified,
+      })),
+    ];
+    // S3 returns versions and delete markers in separate lists.
+    versions.sort(
+      (a, b) =>
+        (a.key < b.key ? -1 : a.key > b.key ? 1 : 0) ||
+        (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0),
+    );
+
+    return {
+      versions,
+      cursor: response.IsTruncated
+        ? JSON.stringify({
+            key: response.NextKeyMarker,
+            versionId: response.NextVersionIdMarker,
+          })
+        : undefined,
+    };
+  }
+
+  async copy(
+    source: { bucket: string; key: string },
+    target: { bucket: string; key: string },
+    options: RequestOptions = {},
+  ): Promise<void> {
+    const command = new CopyObjectCommand({
+      Bucket: target.bucket,
+      Key: target.key,
+      CopySource: `${source.bucket}/${source.key}`
+        .split('/')
+        .map(encodeURIComponent)
+        .join('/'),
+    });
+    await this.send(
+      'CopyObject',
+      (abortSignal) => this.s3Client.send(command, { abortSignal }),
+      options,
+    ).catch((err) => {
+      throw S3Backend.isMissing(err)
+        ? S3Backend.notFound(source.bucket, source.key)
+        : err;
+    });
+  }
+
+  /**
+   * Makes a request with the retry policy and timeout, or the timeout and
+   * signal of the call. A request whose body is a stream cannot be replayed,
+   * so it is attempted only once.
+   * @param operation - The S3 operation name, for logging.
+   * @param request - Sends the request with the given abort signal.
+   * @param options - The call's cancellation and timeout settings.
+   * @param replayable - False if the request cannot be sent twice.
+   */
+  private send<T>(
+    operation: string,
+    request: (abortSignal: AbortSignal) => Promise<T>,
+    options: RequestOptions = {},
+    replayable = true,
+  ): Promise<T> {
+    return withRetry(operation, request, {
+      policy: replayable
+        ? this.retryPolicy
+        : { ...this.retryPolicy, maxAttempts: 1 },
+      timeout: options.timeout ?? this.timeout,
+      signal: options.signal,
+      logger: this.logger,
+      onRetry: this.countRetry,
+    });
+  }
+
+  private readonly countRetry = (operation: string) =>
+    this.metrics.increment('s3store.retries', 1, { operation });
+
+  /**
+   * A missing object, or a version that is a delete marker, which S3 answers
+   * with 405 when it is requested by version id.
+   */
+  private static isMissing(err: unknown): boolean {
+    const error = err as Error & { $metadata?: { httpStatusCode?: number } };
+    const status = error.$metadata?.httpStatusCode;
+    return (
+      error.name === 'NoSuchKey' ||
+      error.name === 'NotFound' ||
+      (status === 404 && error.name !== 'NoSuchBucket') ||
+      status === 405
+    );
+  }
+
+  /**
+   * A failed `If-Match` or `If-None-Match` (412), or a conflict with a
+   * concurrent conditional write (409 `ConditionalRequestConflict`).
+   */
+  private static isPreconditionFailed(err: unknown): boolean {
+    const { statusCode, code } = errorDetails(err);
+    return (
+      statusCode === 412 ||
+      code === 'PreconditionFailed' ||
+      code === 'ConditionalRequestConflict'
+    );
+  }
+
+  /** A `GetObject` whose `If-None-Match` matched (304). */
+  private static isNotModified(err: unknown): boolean {
+    const { statusCode, code } = errorDetails(err);
+    return statusCode === 304 || code === 'NotModified';
+  }
+
+  private static notFound(bucket: string, key: string): NotFoundError {
+    return new NotFoundError(`Object not found: ${bucket}/${key}`);
+  }
+}
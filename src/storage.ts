@@ -0,0 +1,659 @@
+// src/storage.ts
+import fs from 'fs';
+import nodePath from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  ValidationError,
+  NotFoundError,
+  PreconditionFailedError,
+  NotModifiedError,
+} from './errors.js';
+import { ProgressListener } from './multipart.js';
+import { RequestOptions } from './retry.js';
+
+/** The attributes of a stored object. */
+export interface StoredObjectInfo {
+  /** The size of the whole object in bytes, even for a ranged `get`. */
+  size: number;
+  lastModified?: Date;
+  etag?: string;
+  /** The version of the object, from backends that keep versions. */
+  versionId?: string;
+}
+
+/** An object read from a backend. */
+export interface StoredObject extends StoredObjectInfo {
+  body: Readable;
+}
+
+export interface BackendPutOptions extends RequestOptions {
+  /** The length of the body in bytes, if known in advance. */
+  contentLength?: number;
+  /** Called as the body is written. */
+  onProgress?: ProgressListener;
+  /** Writes only if the current object has this ETag. */
+  ifMatch?: string;
+  /** With `*`, writes only if no object exists under the key. */
+  ifNoneMatch?: '*';
+}
+
+export interface BackendVersionOptions extends RequestOptions {
+  /** Addresses this version of the object instead of the latest one. */
+  versionId?: string;
+}
+
+export interface BackendGetOptions extends BackendVersionOptions {
+  /** Reads only the bytes from `start` to `end`, inclusive. */
+  range?: { start: number; end: number };
+  /** Reads the object only if its ETag differs from this one. */
+  ifNoneMatch?: string;
+}
+
+export interface BackendListOptions extends RequestOptions {
+  /** Only keys that start with this prefix are listed. */
+  prefix: string;
+  /**
+   * Groups the keys that contain the delimiter after the prefix into a single
+   * entry of `prefixes`, like a folder.
+   */
+  delimiter?: string;
+  /** The `cursor` of the previous page. */
+  cursor?: string;
+  /** Only keys after this one are listed. */
+  startAfter?: string;
+  /** The most keys and prefixes returned. Defaults to 1000. */
+  pageSize?: number;
+}
+
+export interface StoredListEntry extends StoredObjectInfo {
+  key: string;
+}
+
+export interface BackendListVersionsOptions extends RequestOptions {
+  /** Only keys that start with this prefix are listed. */
+  prefix: string;
+  /** The `cursor` of the previous page. */
+  cursor?: string;
+  /** The most versions returned. Defaults to 1000. */
+  pageSize?: number;
+}
+
+export interface StoredVersion extends StoredListEntry {
+  versionId: string;
+  /** True for the current version of the key. */
+  isLatest: boolean;
+  /** True if this version records a deletion and has no data. */
+  isDeleteMarker: boolean;
+}
+
+export interface StoredVersionPage {
+  /** The versions on this page, by key and then newest first. */
+  versions: StoredVersion[];
+  /** Pass as `cursor` to fetch the next page. Absent on the last page. */
+  cursor?: string;
+}
+
+export interface StoredListPage {
+  /** The objects on this page, in key order. */
+  objects: StoredListEntry[];
+  /** The common prefixes on this page, each ending with the delimiter. */
+  prefixes: string[];
+  /** Pass as `cursor` to fetch the next page. Absent on the last page. */
+  cursor?: string;
+}
+
+/**
+ * Stores opaque objects by bucket and key. `SecureS3Store` encrypts and names
+ * objects and leaves storing them to a backend, so that the same objects can
+ * live in S3, on a local disk or in memory.
+ *
+ * @remarks
+ * Backends see only encrypted bytes and `.enc` keys. A missing object must be
+ * reported as a `NotFoundError` and a failed `ifMatch` or `ifNoneMatch` as a
+ * `PreconditionFailedError`, and a `get` whose `ifNoneMatch` matches as a
+ * `NotModifiedError`; other failures may be any error, and are reported
+ * to callers of the store as an `S3Error`.
+ *
+ * Backends that keep object versions implement `listVersions` and honour the
+ * `versionId` option of `get`, `head` and `delete`. Backends without
+ * `listVersions` are never passed a `versionId`.
+ */
+export interface StorageBackend {
+  /**
+   * Writes an object, replacing any object with the same key.
+   * @throws {PreconditionFailedError} If `ifMatch` or `ifNoneMatch` does not hold.
+   */
+  put(
+    bucket: string,
+    key: string,
+    body: Buffer | Readable,
+    options?: BackendPutOptions,
+  ): Promise<void>;
+  /**
+   * Reads an object, or a range of it.
+   * @throws {NotFoundError} If the object does not exist.
+   * @throws {NotModifiedError} If the object's ETag matches `ifNoneMatch`.
+   */
+  get(
+    bucket: string,
+    key: string,
+    options?: BackendGetOptions,
+  ): Promise<StoredObject>;
+  /**
+   * Returns the attributes of an object without reading it.
+   * @throws {NotFoundError} If the object does not exist.
+   */
+  head(
+    bucket: string,
+    key: string,
+    options?: BackendVersionOptions,
+  ): Promise<StoredObjectInfo>;
+  /**
+   * Deletes an object, or with `versionId` that version permanently. Deleting
+   * a missing object succeeds.
+   */
+  delete(
+    bucket: string,
+    key: string,
+    options?: BackendVersionOptions,
+  ): Promise<void>;
+  /**
+   * Deletes up to 1000 objects at once.
+   * @returns The errors of the keys that could not be deleted.
+   */
+  deleteMany(
+    bucket: string,
+    keys: string[],
+    options?: RequestOptions,
+  ): Promise<Map<string, Error>>;
+  /** Lists one page of keys in key order. */
+  list(bucket: string, options: BackendListOptions): Promise<StoredListPage>;
+  /** Lists one page of object versions, including delete markers. */
+  listVersions?(
+    bucket: string,
+    options: BackendListVersionsOptions,
+  ): Promise<StoredVersionPage>;
+  /**
+   * Copies an object byte for byte, possibly to another bucket.
+   * @throws {NotFoundError} If the source does not exist.
+   */
+  copy(
+    source: { bucket: string; key: string },
+    target: { bucket: string; key: string },
+    options?: RequestOptions,
+  ): Promise<void>;
+}
+
+/**
+ * Pages through sorted keys the way `ListObjectsV2` does. Each page holds at
+ * most `pageSize` keys and prefixes together, and the cursor is the last key or
+ * prefix returned.
+ */
+function listPage(
+  entries: StoredListEntry[],
+  options: BackendListOptions,
+): StoredListPage {
+  const { prefix, delimiter, cursor, startAfter, pageSize = 1000 } = options;
+  const page: StoredListPage = { objects: [], prefixes: [] };
+  let last: string | undefined;
+
+  for (const entry of entries) {
+    const { key } = entry;
+    if (!key.startsWith(prefix)) {
+      continue;
+    }
+    if (startAfter !== undefined && key <= startAfter) {
+      continue;
+    }
+    if (cursor !== undefined && (key <= cursor || isUnder(key, cursor))) {
+      continue;
+    }
+
+    const index = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+    const next = index === -1 ? key : key.slice(0, index + delimiter!.length);
+    if (next === last) {
+      continue;
+    }
+    if (page.objects.length + page.prefixes.length === pageSize) {
+      page.cursor = last;
+      break;
+    }
+    if (index === -1) {
+      page.objects.push(entry);
+    } else {
+      page.prefixes.push(next);
+    }
+    last = next;
+  }
+  return page;
+
+  function isUnder(key: string, folder: string): boolean {
+    return !!delimiter && folder.endsWith(delimiter) && key.startsWith(folder);
+  }
+}
+
+/**
+ * Throws if `ifMatch` or `ifNoneMatch` does not hold for the current object.
+ * @param current - The current object, or undefined if there is none.
+ */
+function checkPrecondition(
+  bucket: string,
+  key: string,
+  current: { etag?: string } | undefined,
+  options: BackendPutOptions,
+): void {
+  const { ifMatch, ifNoneMatch } = options;
+  if (ifNoneMatch === '*' && current) {
+    throw new PreconditionFailedError(
+      `Object already exists: ${bucket}/${key}`,
+    );
+  }
+  if (ifMatch !== undefined && current?.etag !== ifMatch) {
+    throw new PreconditionFailedError(
+      current
+        ? `Object has changed: ${bucket}/${key}`
+        : `Object not found: ${bucket}/${key}`,
+    );
+  }
+}
+
+/** Throws if the ETag of the object being read matches `ifNoneMatch`. */
+function checkModified(
+  bucket: string,
+  key: string,
+  etag: string | undefined,
+  options: BackendGetOptions,
+): void {
+  if (options.ifNoneMatch !== undefined && etag === options.ifNoneMatch) {
+    throw new NotModifiedError(`Object not modified: ${bucket}/${key}`);
+  }
+}
+
+function notFound(bucket: string, key: string): NotFoundError {
+  return new NotFoundError(`Object not found: ${bucket}/${key}`);
+}
+
+async function readAll(body: Buffer | Readable): Promise<Buffer> {
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Keeps objects in memory, for tests and local development. Objects are lost
+ * when the process exits.
+ */
+export class MemoryBackend implements StorageBackend {
+  private readonly objects = new Map<
+    string,
+    { data: Buffer; lastModified: Date; etag: string }
+  >();
+
+  async put(
+    bucket: string,
+    key: string,
+    body: Buffer | Readable,
+    options: BackendPutOptions = {},
+  ): Promise<void> {
+    options.signal?.throwIfAborted();
+    const data = Buffer.from(await readAll(body));
+    checkPrecondition(
+      bucket,
+      key,
+      this.objects.get(`${bucket}/${key}`),
+      options,
+    );
+    this.objects.set(`${bucket}/${key}`, {
+      data,
+      lastModified: new Date(),
+      etag: `"${createHash('md5').update(data).digest('hex')}"`,
+    });
+    options.onProgress?.({ loaded: data.length, total: data.length, part: 1 });
+  }
+
+  async get(
+    bucket: string,
+    key: string,
+    options: BackendGetOptions = {},
+  ): Promise<StoredObject> {
+    options.signal?.throwIfAborted();
+    const { data, ...info } = this.find(bucket, key);
+    checkModified(bucket, key, info.etag, options);
+    const { range } = options;
+    const body = range ? data.subarray(range.start, range.end + 1) : data;
+    return { body: Readable.from([body]), size: data.length, ...info };
+  }
+
+  async head(
+    bucket: string,
+    key: string,
+    options: RequestOptions = {},
+  ): Promise<StoredObjectInfo> {
+    options.signal?.throwIfAborted();
+    const { data, ...info } = this.find(bucket, key);
+    return { size: data.length, ...info };
+  }
+
+  async delete(
+    bucket: string,
+    key: string,
+    options: RequestOptions = {},
+  ): Promise<void> {
+    options.signal?.throwIfAborted();
+    this.objects.delete(`${bucket}/${key}`);
+  }
+
+  async deleteMany(
+    bucket: string,
+    keys: string[],
+    options: RequestOptions = {},
+  ): Promise<Map<string, Error>> {
+    for (const key of keys) {
+      await this.delete(bucket, key, options);
+    }
+    return new Map();
+  }
+
+  async list(
+    bucket: string,
+    options: BackendListOptions,
+  ): Promise<StoredListPage> {
+    options.signal?.throwIfAborted();
+    const entries: StoredListEntry[] = [];
+    for (const [path, { data, ...info }] of this.objects) {
+      if (path.startsWith(`${bucket}/`)) {
+        const key = path.slice(bucket.length + 1);
+        entries.push({ key, size: data.length, ...info });
+      }
+    }
+    entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    return listPage(entries, options);
+  }
+
+  async copy(
+    source: { bucket: string; key: string },
+    target: { bucket: string; key: string },
+    options: RequestOptions = {},
+  ): Promise<void> {
+    options.signal?.throwIfAborted();
+    const object = this.find(source.bucket, source.key);
+    this.objects.set(`${target.bucket}/${target.key}`, {
+      ...object,
+      lastModified: new Date(),
+    });
+  }
+
+  private find(bucket: string, key: string) {
+    const object = this.objects.get(`${bucket}/${key}`);
+    if (!object) {
+      throw notFound(bucket, key);
+    }
+    return object;
+  }
+}
+
+/**
+ * Stores objects as files under a root directory, at `<root>/<bucket>/<key>`,
+ * for local development and air-gapped deployments.
+ *
+ * @remarks
+ * Writes go to a temporary file under `<root>/.tmp` that is renamed into
+ * place, so readers never see a partial object. The ETag is derived from the
+ * file's size, modification time and inode rather than its content.
+ * `ifNoneMatch` is atomic, but `ifMatch` is checked just before the rename and
+ * only guards against writers in the same process reliably.
+ */
+export class FileSystemBackend implements StorageBackend {
+  private readonly root: string;
+
+  /**
+   * @param root - The directory that holds one subdirectory per bucket.
+   */
+  constructor(root: string) {
+    this.root = nodePath.resolve(root);
+  }
+
+  async put(
+    bucket: string,
+    key: string,
+    body: Buffer | Readable,
+    options: BackendPutOptions = {},
+  ): Promise<void> {
+    const { signal, onProgress } = options;
+    const file = this.file(bucket, key);
+    const temp = await this.tempFile();
+    try {
+      const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+      await pipeline(source, fs.createWriteStream(temp), { signal });
+      await fs.promises.mkdir(nodePath.dirname(file), { recursive: true });
+      await this.commit(bucket, key, temp, file, options);
+    } catch (err) {
+      await fs.promises.rm(temp, { force: true });
+      throw err;
+    }
+    const { size } = await fs.promises.stat(file);
+    onProgress?.({ loaded: size, total: size, part: 1 });
+  }
+
+  async get(
+    bucket: string,
+    key: string,
+    options: BackendGetOptions = {},
+  ): Promise<StoredObject> {
+    const { signal, range } = options;
+    signal?.throwIfAborted();
+    const file = this.file(bucket, key);
+    const handle = await this.open(bucket, key, file);
+    try {
+      const info = FileSystemBackend.info(await handle.stat());
+      checkModified(bucket, key, info.etag, options);
+      const body = handle.createReadStream({
+        start: range?.start,
+        end: range?.end,
+        signal,
+      });
+      return { body, ...info };
+    } catch (err) {
+      await handle.close();
+      throw err;
+    }
+  }
+
+  async head(
+    bucket: string,
+    key: string,
+    options: RequestOptions = {},
+  ): Promise<StoredObjectInfo> {
+    options.signal?.throwIfAborted();
+    try {
+      return FileSystemBackend.info(
+        await fs.promises.stat(this.file(bucket, key)),
+      );
+    } catch (err) {
+      throw FileSystemBackend.isMissing(err) ? notFound(bucket, key) : err;
+    }
+  }
+
+  async delete(
+    bucket: string,
+    key: string,
+    options: RequestOptions = {},
+  ): Promise<void> {
+    options.signal?.throwIfAborted();
+    await fs.promises.rm(this.file(bucket, key), { force: true });
+  }
+
+  async deleteMany(
+    bucket: string,
+    keys: string[],
+    options: RequestOptions = {},
+  ): Promise<Map<string, Error>> {
+    const failures = new Map<string, Error>();
+    for (const key of keys) {
+      try {
+        await this.delete(bucket, key, options);
+      } catch (err) {
+        failures.set(key, err as Error);
+      }
+    }
+    return failures;
+  }
+
+  async list(
+    bucket: string,
+    options: BackendListOptions,
+  ): Promise<StoredListPage> {
+    options.signal?.throwIfAborted();
+    const entries: StoredListEntry[] = [];
+    const walk = async (dir: string, keyPrefix: string) => {
+      let names: fs.Dirent[];
+      try {
+        names = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (err) {
+        if (FileSystemBackend.isMissing(err)) {
+          return;
+        }
+        throw err;
+      }
+      for (const entry of names) {
+        const key = `${keyPrefix}${entry.name}`;
+        // Skip subtrees that cannot match, but keep walking toward the prefix.
+        if (
+          !key.startsWith(options.prefix) &&
+          !options.prefix.startsWith(key)
+        ) {
+          continue;
+        }
+        const path = nodePath.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(path, `${key}/`);
+        } else if (entry.isFile() && key.startsWith(options.prefix)) {
+          const info = FileSystemBackend.info(await fs.promises.stat(path));
+          entries.push({ key, ...info });
+        }
+      }
+    };
+    await walk(this.bucketDir(bucket), '');
+    entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    return listPage(entries, options);
+  }
+
+  async copy(
+    source: { bucket: string; key: string },
+    target: { bucket: string; key: string },
+    options: RequestOptions = {},
+  ): Promise<void> {
+    options.signal?.throwIfAborted();
+    const from = this.file(source.bucket, source.key);
+    const to = this.file(target.bucket, target.key);
+    const temp = await this.tempFile();
+    try {
+      await fs.promises.copyFile(from, temp);
+      await fs.promises.mkdir(nodePath.dirname(to), { recursive: true });
+      await fs.promises.rename(temp, to);
+    } catch (err) {
+      await fs.promises.rm(temp, { force: true });
+      throw FileSystemBackend.isMissing(err)
+        ? notFound(source.bucket, source.key)
+        : err;
+    }
+  }
+
+  /** Moves a written temporary file into place, honouring the preconditions. */
+  private async commit(
+    bucket: string,
+    key: string,
+    temp: string,
+    file: string,
+    options: BackendPutOptions,
+  ): Promise<void> {
+    if (options.ifNoneMatch === '*') {
+      // Unlike a rename, a link fails if the file exists.
+      try {
+        await fs.promises.link(temp, file);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+          checkPrecondition(bucket, key, {}, options);
+        }
+        throw err;
+      }
+      await fs.promises.rm(temp);
+      return;
+    }
+    if (options.ifMatch !== undefined) {
+      const current = await fs.promises.stat(file).then(
+        (stats) => FileSystemBackend.info(stats),
+        (err) => {
+          if (FileSystemBackend.isMissing(err)) {
+            return undefined;
+          }
+          throw err;
+        },
+      );
+      checkPrecondition(bucket, key, current, options);
+    }
+    await fs.promises.rename(temp, file);
+  }
+
+  private bucketDir(bucket: string): string {
+    if (!bucket || bucket.startsWith('.') || /[/\\]/.test(bucket)) {
+      throw new ValidationError(`Invalid bucket name: ${bucket}`);
+    }
+    return nodePath.join(this.root, bucket);
+  }
+
+  /** Maps a key to its file, refusing keys that would escape the bucket. */
+  private file(bucket: string, key: string): string {
+    const segments = key.split('/');
+    if (
+      segments.some(
+        (segment) => !segment || segment === '.' || segment === '..',
+      ) ||
+      key.includes('\\') ||
+      key.includes('\0')
+    ) {
+      throw new ValidationError(
+        `Invalid key for a file system backend: ${key}`,
+      );
+    }
+    return nodePath.join(this.bucketDir(bucket), ...segments);
+  }
+
+  private async tempFile(): Promise<string> {
+    const dir = nodePath.join(this.root, '.tmp');
+    await fs.promises.mkdir(dir, { recursive: true });
+    return nodePath.join(dir, randomBytes(16).toString('hex'));
+  }
+
+  private async open(
+    bucket: string,
+    key: string,
+    file: string,
+  ): Promise<fs.promises.FileHandle> {
+    try {
+      return await fs.promises.open(file, 'r');
+    } catch (err) {
+      throw FileSystemBackend.isMissing(err) ? notFound(bucket, key) : err;
+    }
+  }
+
+  private static info(stats: fs.Stats): StoredObjectInfo {
+    return {
+      size: stats.size,
+      lastModified: stats.mtime,
+      etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}-${stats.ino.toString(16)}"`,
+    };
+  }
+
+  private static isMissing(err: unknown): boolean {
+    const code = (err as NodeJS.ErrnoException).code;
+    return code === 'ENOENT' || code === 'ENOTDIR' || code === 'EISDIR';
+  }
+}
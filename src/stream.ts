@@ -0,0 +1,514 @@
+// src/stream.ts
+import { Transform, TransformCallback } from 'stream';
+import { randomBytes } from 'crypto';
+import { DecryptionError, TruncatedError, ValidationError } from './errors.js';
+import {
+  encodeHeader,
+  parseHeader,
+  CipherAlgorithm,
+  HeaderFlags,
+  ObjectHeader,
+  ParsedHeader,
+} from './header.js';
+import {
+  AeadDecipher,
+  createAeadCipher,
+  createAeadDecipher,
+  nonceLength,
+} from './cipher.js';
+import { ObjectMetadata, sealMetadata } from './metadata.js';
+
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024;
+
+/** The segment index (4) and final-segment flag (1) ending a segment nonce. */
+const segmentCounterLength = 5;
+const authTagLength = 16;
+const maxSegments = 0xffffffff;
+
+/**
+ * Looks up the secret key for a KID, returning `undefined` if it is unknown.
+ * For an envelope payload the wrapped data key from the header is passed as
+ * well, and the resolver returns the unwrapped data key.
+ */
+export type KeyResolver = (
+  kid: string,
+  wrappedKey?: Buffer,
+) => Buffer | undefined | Promise<Buffer | undefined>;
+
+export interface EncryptOptions {
+  /**
+   * The `bucket/key` path the object is stored at. When given, the path is
+   * authenticated as additional data so the object cannot be decrypted after
+   * being copied or renamed to another path.
+   */
+  path?: string;
+  /** User metadata to encrypt into the header. */
+  userMetadata?: ObjectMetadata;
+  /** Records that the plaintext was compressed before it was encrypted. */
+  compression?: { algorithm: number; uncompressedLength: number };
+  /** Records that the object is stored under a key encrypted with this name key. */
+  nameKid?: string;
+  /** The `CipherAlgorithm` id to encrypt with. Defaults to AES-256-GCM. */
+  cipher?: number;
+}
+
+export interface EncryptStreamOptions extends EncryptOptions {
+  /** The plaintext size of each segment. */
+  segmentSize?: number;
+}
+
+export interface DecryptOptions {
+  /**
+   * The `bucket/key` path the payload was read from. Path-bound payloads are
+   * authenticated against it, and payloads that are not path-bound are
+   * rejected unless `allowUnbound` is set. When omitted, no binding is checked
+   * and path-bound payloads cannot be decrypted.
+   */
+  path?: string;
+  /** Accept payloads written without path binding. */
+  allowUnbound?: boolean;
+  /**
+   * The most plaintext of a payload encrypted in one piece to hold in memory
+   * until its tag verifies. Larger payloads fail with a `ValidationError`.
+   * Unlimited by default.
+   */
+  maxBufferedSize?: number;
+}
+
+/** The key used to encrypt a payload, as recorded in its header. */
+export interface EncryptionKey {
+  kid: string;
+  key: Buffer;
+  /** For envelope encryption, `key` is a data key and this is its wrapped form. */
+  wrappedKey?: Buffer;
+}
+
+/** Encodes the header for a new payload. */
+function newHeader(
+  encryptionKey: EncryptionKey,
+  nonce: Buffer,
+  options: EncryptStreamOptions,
+  chunked: boolean,
+): Buffer {
+  const { path, userMetadata, compression, segmentSize, nameKid } = options;
+  const { cipher = CipherAlgorithm.AES_256_GCM } = options;
+  const flags =
+    (chunked ? HeaderFlags.CHUNKED : 0) |
+    (encryptionKey.wrappedKey ? HeaderFlags.ENVELOPE : 0) |
+    (path === undefined ? 0 : HeaderFlags.PATH_BOUND) |
+    (userMetadata ? HeaderFlags.USER_METADATA : 0) |
+    (compression ? HeaderFlags.COMPRESSED : 0) |
+    (nameKid === undefined ? 0 : HeaderFlags.ENCRYPTED_NAME);
+
+  return encodeHeader({
+    algorithm: cipher,
+    flags,
+    kid: encryptionKey.kid,
+    nonce,
+    wrappedKey: encryptionKey.wrappedKey,
+    segmentSize: chunked ? segmentSize : undefined,
+    userMetadata:
+      userMetadata && sealMetadata(encryptionKey.key, userMetadata, path),
+    compression: compression?.algorithm,
+    uncompressedLength: compression?.uncompressedLength,
+    nameKid,
+  });
+}
+
+/** The additional data for a payload: its header, then its path if bound. */
+function additionalData(header: Buffer, path?: string): Buffer {
+  return path === undefined
+    ? header
+    : Buffer.concat([header, Buffer.from(path, 'utf8')]);
+}
+
+function segmentNonce(prefix: Buffer, index: number, final: boolean): Buffer {
+  if (index >= maxSegments) {
+    throw new DecryptionError('Stream exceeds the maximum number of segments.');
+  }
+  const nonce = Buffer.alloc(prefix.length + segmentCounterLength);
+  prefix.copy(nonce, 0);
+  nonce.writeUInt32BE(index, prefix.length);
+  nonce[prefix.length + 4] = final ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Calculates the plaintext size of a payload from its parsed header and its
+ * total encrypted size, without decrypting it. For a compressed payload this
+ * is the size recorded before compression.
+ * @param parsed - The parsed header of the payload.
+ * @param encryptedLength - The size of the whole payload in bytes.
+ */
+export function decryptedLength(
+  parsed: ParsedHeader,
+  encryptedLength: number,
+): number {
+  const body = encryptedLength - parsed.length;
+  const { flags, segmentSize, uncompressedLength } = parsed.header;
+  if (uncompressedLength !== undefined) {
+    return uncompressedLength;
+  }
+  if (!(flags & HeaderFlags.CHUNKED)) {
+    return Math.max(0, body - authTagLength);
+  }
+  const segments = Math.max(
+    1,
+    Math.ceil(body / (segmentSize! + authTagLength)),
+  );
+  return Math.max(0, body - segments * authTagLength);
+}
+
+/**
+ * Encrypts a buffer in one piece as `[header][AuthTag (16)][ciphertext]`
+ * under a random nonce, authenticating the header (and the path, if given) as
+ * additional data.
+ * @param data - The plaintext.
+ * @param encryptionKey - The key to encrypt with.
+ * @param options - Optional encryption settings.
+ */
+export function encryptPayload(
+  data: Buffer,
+  encryptionKey: EncryptionKey,
+  options: EncryptOptions = {},
+): Buffer {
+  const algorithm = options.cipher ?? CipherAlgorithm.AES_256_GCM;
+  const nonce = randomBytes(nonceLength(algorithm));
+  const header = newHeader(encryptionKey, nonce, options, false);
+
+  const cipher = createAeadCipher(algorithm, encryptionKey.key, nonce);
+  cipher.setAAD(additionalData(header, options.path));
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([header, cipher.getAuthTag(), encrypted]);
+}
+
+/**
+ * Encrypts a byte stream into the chunked payload format.
+ *
+ * @remarks
+ * The payload is a header with the `CHUNKED` flag (see `encodeHeader`)
+ * followed by segments of `[ciphertext][AuthTag (16)]`. Each segment is sealed
+ * with the cipher recorded in the header under a nonce built from the random
+ * nonce prefix in the header (7 bytes, or 19 for XChaCha20-Poly1305), the
+ * segment index and a final-segment flag, and authenticates the header (and
+ * the path, if given) as additional data. Reordered, dropped or truncated segments
+ * therefore fail to decrypt. At most one segment of plaintext is buffered.
+ */
+export class EncryptStream extends Transform {
+  private readonly header: Buffer;
+  private readonly aad: Buffer;
+  private readonly algorithm: number;
+  private readonly noncePrefix: Buffer;
+  private readonly key: Buffer;
+  private readonly segmentSize: number;
+  private pending: Buffer = Buffer.alloc(0);
+  private index = 0;
+
+  /**
+   * @param encryptionKey - The key to encrypt with.
+   * @param options - Optional encryption settings.
+   */
+  constructor(
+    encryptionKey: EncryptionKey,
+    options: EncryptStreamOptions = {},
+  ) {
+    super();
+    const { segmentSize = DEFAULT_SEGMENT_SIZE } = options;
+    this.algorithm = options.cipher ?? CipherAlgorithm.AES_256_GCM;
+    this.noncePrefix = randomBytes(
+      nonceLength(this.algorithm) - segmentCounterLength,
+    );
+    this.key = encryptionKey.key;
+    this.segmentSize = segmentSize;
+    this.header = newHeader(
+      encryptionKey,
+      this.noncePrefix,
+      { ...options, segmentSize },
+      true,
+    );
+    this.aad = additionalData(this.header, options.path);
+  }
+
+  /**
+   * Calculates the size of the payload this stream produces for a plaintext of
+   * the given length.
+   * @param plaintextLength - The number of plaintext bytes.
+   */
+  encryptedLength(plaintextLength: number): number {
+    const segments = Math.max(1, Math.ceil(plaintextLength / this.segmentSize));
+    return this.header.length + plaintextLength + segments * authTagLength;
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    this.pending =
+      this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+
+    try {
+      // Always hold back the tail so the final segment is sealed in _flush.
+      while (this.pending.length > this.segmentSize) {
+        this.pushSegment(this.pending.subarray(0, this.segmentSize), false);
+        this.pending = this.pending.subarray(this.segmentSize);
+      }
+      callback();
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.pushSegment(this.pending, true);
+      this.pending = Buffer.alloc(0);
+      callback();
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  private pushSegment(plaintext: Buffer, final: boolean): void {
+    if (this.index === 0) {
+      this.push(this.header);
+    }
+    const nonce = segmentNonce(this.noncePrefix, this.index, final);
+    const cipher = createAeadCipher(this.algorithm, this.key, nonce);
+    cipher.setAAD(this.aad);
+    this.push(
+      Buffer.concat([
+        cipher.update(plaintext),
+        cipher.final(),
+        cipher.getAuthTag(),
+      ]),
+    );
+    this.index++;
+  }
+}
+
+/**
+ * Decrypts any payload whose header `parseHeader` understands: chunked
+ * payloads, payloads encrypted in one piece, and legacy
+ * `[KID length][KID][IV (16)][AuthTag (16)][ciphertext]` payloads.
+ *
+ * @remarks
+ * Chunked segments are authenticated before they are emitted. A payload
+ * encrypted in one piece has a single authentication tag covering the whole
+ * object, so its plaintext is held in memory, up to `maxBufferedSize`, and
+ * emitted only once the tag verifies; nothing is emitted if it does not.
+ * Decryption failures, including a path binding mismatch, are reported as a
+ * `DecryptionError`.
+ *
+ * Emits a `header` event with the parsed `ObjectHeader` before any plaintext.
+ */
+export class DecryptStream extends Transform {
+  private pending: Buffer = Buffer.alloc(0);
+  private mode: 'header' | 'tag' | 'single' | 'chunked' = 'header';
+  private header?: ObjectHeader;
+  private aad?: Buffer;
+  private key?: Buffer;
+  private index = 0;
+  private decipher?: AeadDecipher;
+  private plaintext: Buffer[] = [];
+  private buffered = 0;
+
+  /**
+   * @param resolveKey - Looks up the secret key for the KID in the payload.
+   * @param options - Optional path binding settings.
+   */
+  constructor(
+    private readonly resolveKey: KeyResolver,
+    private readonly options: DecryptOptions = {},
+  ) {
+    super();
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    this.pending =
+      this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+    this.process(false).then(() => callback(), callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.process(true).then(() => callback(), callback);
+  }
+
+  private async process(final: boolean): Promise<void> {
+    if (this.mode === 'header') {
+      const parsed = parseHeader(this.pending);
+      if (!parsed) {
+        return this.needMore(final, 'incomplete header');
+      }
+
+      const { header } = parsed;
+      this.header = header;
+      this.emit('header', header);
+      this.aad = this.bindPath(header, parsed.aad);
+      this.pending = this.pending.subarray(parsed.length);
+      const chunked = !!(header.flags & HeaderFlags.CHUNKED);
+      if (
+        chunked &&
+        header.nonce.length !==
+          nonceLength(header.algorithm) - segmentCounterLength
+      ) {
+        throw new DecryptionError(
+          `Invalid stream nonce prefix length: ${header.nonce.length}`,
+        );
+      }
+      this.key = await this.lookupKey(header.kid, header.wrappedKey);
+      this.mode = chunked ? 'chunked' : 'tag';
+    }
+
+    if (this.mode === 'tag') {
+      if (this.pending.length < authTagLength) {
+        return this.needMore(final, 'missing authentication tag');
+      }
+      const header = this.header!;
+      this.decipher = createAeadDecipher(
+        header.algorithm,
+        this.key!,
+        header.nonce,
+      );
+      if (this.aad) {
+        this.decipher.setAAD(this.aad);
+      }
+      this.decipher.setAuthTag(this.pending.subarray(0, authTagLength));
+      this.pending = this.pending.subarray(authTagLength);
+      this.mode = 'single';
+    }
+
+    if (this.mode === 'single') {
+      this.drainSingle(final);
+    } else {
+      this.drainChunked(final);
+    }
+  }
+
+  private bindPath(header: ObjectHeader, aad?: Buffer): Buffer | undefined {
+    const { path, allowUnbound } = this.options;
+    if (header.flags & HeaderFlags.PATH_BOUND) {
+      if (path === undefined) {
+        throw new DecryptionError(
+          'Object is bound to its path, but no path was given to verify it.',
+        );
+      }
+      return additionalData(aad!, path);
+    }
+    if (path !== undefined && !allowUnbound) {
+      throw new DecryptionError(
+        `Object at ${path} is not bound to its path and unbound objects are not allowed.`,
+      );
+    }
+    return aad;
+  }
+
+  private needMore(final: boolean, reason: string): void {
+    if (final) {
+      throw new TruncatedError(`Encrypted payload is truncated: ${reason}.`);
+    }
+  }
+
+  private async lookupKey(kid: string, wrappedKey?: Buffer): Promise<Buffer> {
+    const key = await this.resolveKey(kid, wrappedKey);
+    if (!key) {
+      throw new DecryptionError(`No secret key found for KID: ${kid}`);
+    }
+    return key;
+  }
+
+  private drainSingle(final: boolean): void {
+    const decipher = this.decipher!;
+    if (this.pending.length > 0) {
+      const { maxBufferedSize = Infinity } = this.options;
+      this.buffered += this.pending.length;
+      if (this.buffered > maxBufferedSize) {
+        this.plaintext = [];
+        throw new ValidationError(
+          `Encrypted object exceeds maximum limit of ${maxBufferedSize} bytes`,
+        );
+      }
+      this.plaintext.push(decipher.update(this.pending));
+      this.pending = Buffer.alloc(0);
+    }
+    if (final) {
+      try {
+        this.plaintext.push(decipher.final());
+      } catch {
+        this.plaintext = [];
+        throw new DecryptionError(
+          'Unable to decrypt data: authentication failed.',
+        );
+      }
+      this.push(Buffer.concat(this.plaintext));
+      this.plaintext = [];
+    }
+  }
+
+  private drainChunked(final: boolean): void {
+    const encryptedSegmentSize = this.header!.segmentSize! + authTagLength;
+    while (this.pending.length > encryptedSegmentSize) {
+      this.decryptSegment(
+        this.pending.subarray(0, encryptedSegmentSize),
+        false,
+      );
+      this.pending = this.pending.subarray(encryptedSegmentSize);
+    }
+
+    if (final) {
+      if (this.pending.length < authTagLength) {
+        throw new TruncatedError(
+          'Encrypted payload is truncated: missing final segment.',
+        );
+      }
+      this.decryptSegment(this.pending, true);
+      this.pending = Buffer.alloc(0);
+    }
+  }
+
+  private decryptSegment(segment: Buffer, final: boolean): void {
+    const plaintext = this.openSegment(segment, final);
+    if (!plaintext) {
+      // A full-size last segment that authenticates as a middle segment means
+      // the payload was cut at a segment boundary.
+      const encryptedSegmentSize = this.header!.segmentSize! + authTagLength;
+      if (
+        final &&
+        segment.length === encryptedSegmentSize &&
+        this.openSegment(segment, false)
+      ) {
+        throw new TruncatedError(
+          'Encrypted payload is truncated: missing final segment.',
+        );
+      }
+      throw new DecryptionError(
+        `Segment ${this.index} failed authentication: the data is truncated, reordered or tampered.`,
+      );
+    }
+    this.push(plaintext);
+    this.index++;
+  }
+
+  /** Returns the plaintext of a segment, or undefined if it fails authentication. */
+  private openSegment(segment: Buffer, final: boolean): Buffer | undefined {
+    const header = this.header!;
+    const tagOffset = segment.length - authTagLength;
+    const nonce = segmentNonce(header.nonce, this.index, final);
+    const decipher = createAeadDecipher(header.algorithm, this.key!, nonce);
+    decipher.setAAD(this.aad!);
+    decipher.setAuthTag(segment.subarray(tagOffset));
+
+    try {
+      return Buffer.concat([
+        decipher.update(segment.subarray(0, tagOffset)),
+        decipher.final(),
+      ]);
+    } catch {
+      return undefined;
+    }
+  }
+}
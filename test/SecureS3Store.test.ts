@@ -1,11 +1,33 @@
 // test/SecureS3Store.test.ts
-import { S3Client } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  ListObjectVersionsCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
 import {
   SecureS3Store,
   ValidationError,
   DecryptionError,
+  NotFoundError,
+  S3Error,
+  PreconditionFailedError,
+  SchemaValidationError,
 } from '../src/SecureS3Store.js';
+import { StaticKeyProvider } from '../src/keyProvider.js';
+import { parseHeader, HeaderFlags } from '../src/header.js';
+import { encryptPayload } from '../src/stream.js';
+import { MemoryBackend } from '../src/storage.js';
+import { AuditEvent } from '../src/audit.js';
+import { InMemoryCollector } from '../src/instrumentation.js';
 import { Readable } from 'stream';
+import { z } from 'zod';
 
 jest.mock('@aws-sdk/client-s3');
 
@@ -15,7 +37,7 @@ describe('SecureS3Store', () => {
 
   beforeEach(() => {
     mockS3Client.mockClear();
-    mockSend.mockClear();
+    mockSend.mockReset();
     mockS3Client.mockImplementation(() => ({
       send: mockSend,
     }));
@@ -116,6 +138,104 @@ describe('SecureS3Store', () => {
     expect(deleteCommand.input.Key).toBe('my-key.enc');
   });
 
+  describe('listPage', () => {
+    const store = () =>
+      new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+    const lastModified = new Date('2025-01-02T03:04:05Z');
+
+    it('should return folders and object details with a cursor', async () => {
+      mockSend.mockResolvedValueOnce({
+        CommonPrefixes: [{ Prefix: 'logs/2025/' }],
+        Contents: [
+          {
+            Key: 'logs/app.log.enc',
+            Size: 120,
+            LastModified: lastModified,
+            ETag: '"e1"',
+          },
+          { Key: 'logs/notes.txt', Size: 5 },
+        ],
+        NextContinuationToken: 'token-2',
+      });
+
+      const page = await store().listPage('my-bucket/logs/', {
+        pageSize: 2,
+      });
+
+      expect(mockSend.mock.calls[0][0].input).toEqual({
+        Bucket: 'my-bucket',
+        Prefix: 'logs/',
+        Delimiter: '/',
+        ContinuationToken: undefined,
+        MaxKeys: 2,
+      });
+      expect(page).toEqual({
+        entries: [
+          { key: 'logs/2025/', isFolder: true },
+          {
+            key: 'logs/app.log',
+            isFolder: false,
+            size: 120,
+            lastModified,
+            etag: '"e1"',
+          },
+        ],
+        cursor: 'token-2',
+      });
+    });
+
+    it('should continue from a cursor', async () => {
+      mockSend.mockResolvedValueOnce({ Contents: [] });
+
+      const page = await store().listPage('my-bucket/logs/', {
+        cursor: 'token-2',
+        recursive: true,
+      });
+
+      const { input } = mockSend.mock.calls[0][0];
+      expect(input.ContinuationToken).toBe('token-2');
+      expect(input.Delimiter).toBeUndefined();
+      expect(page).toEqual({ entries: [], cursor: undefined });
+    });
+
+    it('should reject an out-of-range page size', async () => {
+      await expect(
+        store().listPage('my-bucket/logs/', { pageSize: 1001 }),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should iterate across pages', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Contents: [{ Key: 'a/1.enc' }],
+          NextContinuationToken: 'next',
+        })
+        .mockResolvedValueOnce({ Contents: [{ Key: 'a/2.enc' }] });
+
+      const keys: string[] = [];
+      for await (const entry of store().listIterator('my-bucket/a/')) {
+        keys.push(entry.key);
+      }
+
+      expect(keys).toEqual(['a/1', 'a/2']);
+      expect(mockSend.mock.calls[1][0].input.ContinuationToken).toBe('next');
+    });
+
+    it('should stop fetching once list has filled its window', async () => {
+      mockSend.mockResolvedValueOnce({
+        Contents: [{ Key: 'a/1.enc' }, { Key: 'a/2.enc' }],
+        NextContinuationToken: 'next',
+      });
+
+      expect(await store().list('my-bucket/a/', 0, 2)).toEqual(['a/1', 'a/2']);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+  });
+
   it('should list values', async () => {
     const store = new SecureS3Store({
       keys: { v1: 'a'.repeat(64) },
@@ -141,6 +261,2134 @@ describe('SecureS3Store', () => {
     expect(result).toEqual(['my-folder/file1.txt', 'my-folder/file2.txt']);
   });
 
+  describe('streaming', () => {
+    const toBuffer = async (stream: Readable) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    };
+
+    it('should put a stream with a known length and get it back', async () => {
+      const store = new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      const data = Buffer.alloc(200 * 1024, 'x');
+      let stored = Buffer.alloc(0);
+      mockSend.mockImplementationOnce(async (command) => {
+        stored = await toBuffer(command.input.Body);
+        return {};
+      });
+
+      await store.putStream('my-bucket/big-file', Readable.from([data]), {
+        contentLength: data.length,
+      });
+
+      const putCommand = mockSend.mock.calls[0][0];
+      expect(putCommand.input.Key).toBe('big-file.enc');
+      expect(putCommand.input.ContentLength).toBe(stored.length);
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([stored]) });
+      const stream = await store.getStream('my-bucket/big-file');
+      expect(await toBuffer(stream)).toEqual(data);
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([stored]) });
+      expect(await store.get('my-bucket/big-file')).toEqual(data);
+    });
+
+    it('should use a multipart upload when the length is unknown', async () => {
+      const store = new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      const parts: Buffer[] = [];
+      mockSend.mockImplementation(async (command) => {
+        if (command.input.UploadId && command.input.PartNumber) {
+          parts.push(command.input.Body);
+          return { ETag: `etag-${command.input.PartNumber}` };
+        }
+        return { UploadId: 'upload-1' };
+      });
+
+      await store.putStream(
+        'my-bucket/piped',
+        Readable.from([Buffer.from('chunk one '), Buffer.from('chunk two')]),
+      );
+
+      const completeCommand = mockSend.mock.calls[2][0];
+      expect(completeCommand.input.MultipartUpload.Parts).toEqual([
+        { ETag: 'etag-1', PartNumber: 1 },
+      ]);
+
+      mockSend.mockResolvedValueOnce({
+        Body: Readable.from([Buffer.concat(parts)]),
+      });
+      const result = await store.get('my-bucket/piped');
+      expect(result.toString('utf8')).toBe('chunk one chunk two');
+    });
+
+    it('should put with a multipart upload above the threshold', async () => {
+      const store = new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        s3Config: {},
+        multipartThreshold: 10,
+      });
+      const parts: Buffer[] = [];
+      mockSend.mockImplementation(async (command) => {
+        if (command.input.PartNumber) {
+          parts.push(command.input.Body);
+          return { ETag: 'etag-1' };
+        }
+        return { UploadId: 'upload-1' };
+      });
+      const onProgress = jest.fn();
+
+      await store.put('my-bucket/my-key', 'Hello, multipart!', { onProgress });
+
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenCalledWith({
+        loaded: parts[0].length,
+        total: parts[0].length,
+        part: 1,
+      });
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from(parts) });
+      const result = await store.get('my-bucket/my-key');
+      expect(result.toString('utf8')).toBe('Hello, multipart!');
+    });
+
+    it('should reject a part size below the S3 minimum', () => {
+      expect(
+        () =>
+          new SecureS3Store({
+            keys: { v1: 'a'.repeat(64) },
+            primaryKey: 'v1',
+            s3Config: {},
+            partSize: 1024,
+          }),
+      ).toThrow(ValidationError);
+    });
+
+    it('should abort the multipart upload when a part fails', async () => {
+      const store = new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      mockSend
+        .mockResolvedValueOnce({ UploadId: 'upload-1' })
+        .mockRejectedValueOnce(new Error('Part failed'))
+        .mockResolvedValueOnce({});
+
+      await expect(
+        store.putStream('my-bucket/piped', Readable.from([Buffer.from('x')])),
+      ).rejects.toThrow('S3 stream upload failed: Part failed');
+
+      const abortCommand = mockSend.mock.calls[2][0];
+      expect(abortCommand.input.UploadId).toBe('upload-1');
+    });
+
+    it('should emit a DecryptionError from a tampered stream', async () => {
+      const store = new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      let stored = Buffer.alloc(0);
+      mockSend.mockImplementationOnce(async (command) => {
+        stored = await toBuffer(command.input.Body);
+        return {};
+      });
+      await store.putStream('my-bucket/file', Readable.from(['secret']), {
+        contentLength: 6,
+      });
+
+      stored[stored.length - 1] ^= 0xff;
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([stored]) });
+      const stream = await store.getStream('my-bucket/file');
+      await expect(toBuffer(stream)).rejects.toThrow(DecryptionError);
+    });
+
+    it('should not buffer a one-piece object beyond maxFileSize', async () => {
+      const keys = { v1: 'a'.repeat(64) };
+      const writer = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      const reader = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        maxFileSize: 1000,
+        s3Config: {},
+      });
+      mockSend.mockResolvedValueOnce({});
+      await writer.put('my-bucket/file', Buffer.alloc(4000, 'x'));
+      const payload: Buffer = mockSend.mock.calls[0][0].input.Body;
+
+      mockSend.mockResolvedValueOnce({
+        Body: Readable.from([
+          payload.subarray(0, 2000),
+          payload.subarray(2000),
+        ]),
+      });
+      const stream = await reader.getStream('my-bucket/file');
+      await expect(toBuffer(stream)).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('envelope encryption', () => {
+    const keyProvider = new StaticKeyProvider({ kek1: 'd'.repeat(64) }, 'kek1');
+
+    it('should put and get a value with a per-object data key', async () => {
+      const store = new SecureS3Store({ keyProvider, s3Config: {} });
+      mockSend.mockResolvedValue({});
+
+      await store.put('my-bucket/a', 'same data');
+      await store.put('my-bucket/b', 'same data');
+
+      const first: Buffer = mockSend.mock.calls[0][0].input.Body;
+      const second: Buffer = mockSend.mock.calls[1][0].input.Body;
+      expect(first.equals(second)).toBe(false);
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([first]) });
+      expect((await store.get('my-bucket/a')).toString()).toBe('same data');
+    });
+
+    it('should still read objects written with static keys', async () => {
+      const keys = { v1: 'a'.repeat(64) };
+      const legacyStore = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      mockSend.mockResolvedValueOnce({});
+      await legacyStore.put('my-bucket/old', 'old data');
+      const payload = mockSend.mock.calls[0][0].input.Body;
+
+      const store = new SecureS3Store({ keys, keyProvider, s3Config: {} });
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      expect((await store.get('my-bucket/old')).toString()).toBe('old data');
+    });
+
+    it('should throw a DecryptionError without a key provider', async () => {
+      const store = new SecureS3Store({ keyProvider, s3Config: {} });
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/a', 'data');
+      const payload = mockSend.mock.calls[0][0].input.Body;
+
+      const staticStore = new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      await expect(staticStore.get('my-bucket/a')).rejects.toThrow(
+        DecryptionError,
+      );
+    });
+  });
+
+  describe('batch operations', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    const store = () =>
+      new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+
+    it('should put and get many objects with per-item results', async () => {
+      const objects = new Map<string, Buffer>();
+      mockSend.mockImplementation(
+        async (command: { input: { Key: string; Body: Buffer } }) => {
+          const { Key, Body } = command.input;
+          if (command instanceof PutObjectCommand) {
+            if (Key === 'denied.enc') {
+              throw new Error('Access Denied');
+            }
+            objects.set(Key, Body);
+            return {};
+          }
+          return { Body: Readable.from([objects.get(Key)!]) };
+        },
+      );
+
+      const putResults = await store().putMany(
+        [
+          { path: 'b/one', data: 'first' },
+          { path: 'b/denied', data: 'second' },
+          { path: 'b/three', data: 'third' },
+        ],
+        { concurrency: 2 },
+      );
+      expect(putResults.map((r) => r.ok)).toEqual([true, false, true]);
+      expect(putResults[1]).toMatchObject({
+        path: 'b/denied',
+        error: expect.any(S3Error),
+      });
+
+      const getResults = await store().getMany(['b/one', 'b/three']);
+      expect(
+        getResults.map((r) => (r.ok ? r.value.toString() : r.error)),
+      ).toEqual(['first', 'third']);
+    });
+
+    it('should delete in requests of at most 1000 keys per bucket', async () => {
+      mockSend.mockImplementation(
+        async (command: {
+          input: { Delete: { Objects: { Key: string }[] } };
+        }) => {
+          const { Objects } = command.input.Delete;
+          const failed = Objects.find((o) => o.Key === 'k1500.enc');
+          return {
+            Errors: failed
+              ? [{ Key: failed.Key, Code: 'AccessDenied', Message: 'Denied' }]
+              : undefined,
+          };
+        },
+      );
+      const paths = [
+        ...Array.from({ length: 2001 }, (_, i) => `bucket-a/k${i}`),
+        'bucket-b/other',
+        'no-key',
+      ];
+
+      const results = await store().deleteMany(paths);
+
+      const requests = mockSend.mock.calls.map((c) => c[0]);
+      expect(requests.every((c) => c instanceof DeleteObjectsCommand)).toBe(
+        true,
+      );
+      expect(
+        requests.map((c) => [c.input.Bucket, c.input.Delete.Objects.length]),
+      ).toEqual([
+        ['bucket-a', 1000],
+        ['bucket-a', 1000],
+        ['bucket-a', 1],
+        ['bucket-b', 1],
+      ]);
+      expect(results).toHaveLength(paths.length);
+      expect(results.filter((r) => !r.ok).map((r) => r.path)).toEqual([
+        'bucket-a/k1500',
+        'no-key',
+      ]);
+      expect(results[2002]).toMatchObject({
+        error: expect.any(ValidationError),
+      });
+    });
+
+    it('should fail every key of a rejected delete request', async () => {
+      mockSend.mockRejectedValueOnce(new Error('Service Unavailable'));
+
+      const results = await store().deleteMany(['b/x', 'b/y']);
+
+      expect(results).toEqual([
+        { path: 'b/x', ok: false, error: expect.any(S3Error) },
+        { path: 'b/y', ok: false, error: expect.any(S3Error) },
+      ]);
+    });
+
+    it('should delete every object under a prefix', async () => {
+      mockSend.mockImplementation(async (command: object) => {
+        if (command instanceof ListObjectsV2Command) {
+          return {
+            Contents: [
+              { Key: 'logs/a.enc' },
+              { Key: 'logs/2025/b.enc' },
+              { Key: 'logs/readme.txt' },
+            ],
+          };
+        }
+        return { Errors: [{ Key: 'logs/2025/b.enc', Code: 'AccessDenied' }] };
+      });
+
+      const report = await store().deletePrefix('my-bucket/logs/');
+
+      const list = mockSend.mock.calls[0][0];
+      expect(list.input.Delimiter).toBeUndefined();
+      const request = mockSend.mock.calls[1][0];
+      expect(request.input.Delete.Objects).toEqual([
+        { Key: 'logs/a.enc' },
+        { Key: 'logs/2025/b.enc' },
+      ]);
+      expect(report).toEqual({
+        deleted: ['logs/a'],
+        failed: [
+          {
+            key: 'logs/2025/b',
+            error: 'S3 DeleteObjects failed for logs/2025/b: AccessDenied',
+          },
+        ],
+      });
+    });
+
+    it('should only delete whole folders', async () => {
+      const store = new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        backend: new MemoryBackend(),
+      });
+      await store.put('bkt/logs/a.txt', 'a');
+      await store.put('bkt/logs-archive/b.txt', 'b');
+
+      await expect(store.deletePrefix('bkt/logs')).rejects.toThrow(
+        ValidationError,
+      );
+      const report = await store.deletePrefix('bkt/logs/');
+
+      expect(report.deleted).toEqual(['logs/a.txt']);
+      expect(await store.exists('bkt/logs-archive/b.txt')).toBe(true);
+    });
+  });
+
+  describe('head', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    const lastModified = new Date('2025-01-02T03:04:05Z');
+
+    // Answers a ranged GET of the header like S3 does.
+    const rangedGet = (payload: Buffer) => ({
+      Body: Readable.from([payload.subarray(0, 4096)]),
+      ContentRange: `bytes 0-${Math.min(4096, payload.length) - 1}/${payload.length}`,
+      LastModified: lastModified,
+      ETag: '"etag-1"',
+    });
+
+    it('should return encrypted metadata without downloading the data', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      const data = Buffer.alloc(10000, 1);
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/report.pdf', data, {
+        contentType: 'application/pdf',
+        metadata: { filename: 'Q3 report.pdf' },
+      });
+      const { input } = mockSend.mock.calls[0][0];
+      expect(input.Metadata).toBeUndefined();
+      expect(input.Body.includes('Q3 report')).toBe(false);
+
+      mockSend.mockResolvedValueOnce(rangedGet(input.Body));
+      const info = await store.head('my-bucket/report.pdf');
+
+      expect(mockSend.mock.calls[1][0].input.Range).toBe('bytes=0-4095');
+      expect(info).toEqual({
+        kid: 'v1',
+        cipher: 'aes-256-gcm',
+        size: input.Body.length,
+        plaintextSize: 10000,
+        lastModified,
+        etag: '"etag-1"',
+        contentType: 'application/pdf',
+        metadata: { filename: 'Q3 report.pdf' },
+      });
+    });
+
+    it('should reject metadata read from another path', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/a', 'data', { metadata: { owner: 'a' } });
+      const payload = mockSend.mock.calls[0][0].input.Body;
+
+      mockSend.mockResolvedValueOnce(rangedGet(payload));
+      await expect(store.head('my-bucket/b')).rejects.toThrow(DecryptionError);
+    });
+
+    it('should throw a NotFoundError for a missing object', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      mockSend.mockRejectedValueOnce(
+        Object.assign(new Error('missing'), { name: 'NoSuchKey' }),
+      );
+      await expect(store.head('my-bucket/missing')).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+
+    it('should check whether an object exists', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      mockSend.mockResolvedValueOnce({});
+      await expect(store.exists('my-bucket/a')).resolves.toBe(true);
+      expect(mockSend.mock.calls[0][0].input).toEqual({
+        Bucket: 'my-bucket',
+        Key: 'a.enc',
+      });
+
+      mockSend.mockRejectedValueOnce(
+        Object.assign(new Error('Not Found'), { name: 'NotFound' }),
+      );
+      await expect(store.exists('my-bucket/b')).resolves.toBe(false);
+
+      mockSend.mockRejectedValueOnce(new Error('Access Denied'));
+      await expect(store.exists('my-bucket/c')).rejects.toThrow(S3Error);
+    });
+  });
+
+  describe('compression', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    const data = Buffer.from('{"event":"login","user":"alice"}\n'.repeat(500));
+
+    it('should compress before encrypting and decompress on get', async () => {
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        compression: 'gzip',
+        s3Config: {},
+      });
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/events.jsonl', data);
+      const payload = mockSend.mock.calls[0][0].input.Body;
+
+      const { header } = parseHeader(payload)!;
+      expect(header.flags & HeaderFlags.COMPRESSED).toBeTruthy();
+      expect(header.uncompressedLength).toBe(data.length);
+      expect(payload.length).toBeLessThan(data.length / 5);
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      expect(await store.get('my-bucket/events.jsonl')).toEqual(data);
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      const stream = await store.getStream('my-bucket/events.jsonl');
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      expect(Buffer.concat(chunks)).toEqual(data);
+    });
+
+    it('should store data below the minimum size uncompressed', async () => {
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        compression: 'brotli',
+        compressionMinSize: 100,
+        s3Config: {},
+      });
+      mockSend.mockResolvedValue({});
+      await store.put('my-bucket/small', 'x'.repeat(99));
+      await store.put('my-bucket/large', 'x'.repeat(100));
+
+      const flags = (call: number) =>
+        parseHeader(mockSend.mock.calls[call][0].input.Body)!.header.flags;
+      expect(flags(0) & HeaderFlags.COMPRESSED).toBe(0);
+      expect(flags(1) & HeaderFlags.COMPRESSED).toBeTruthy();
+    });
+
+    it('should refuse to decompress beyond maxFileSize', async () => {
+      const writer = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        compression: 'gzip',
+        s3Config: {},
+      });
+      const reader = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        maxFileSize: 1000,
+        s3Config: {},
+      });
+      mockSend.mockResolvedValueOnce({});
+      await writer.put('my-bucket/events.jsonl', data);
+      const payload = mockSend.mock.calls[0][0].input.Body;
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      await expect(reader.get('my-bucket/events.jsonl')).rejects.toThrow(
+        'exceeds maximum limit of 1000 bytes',
+      );
+    });
+  });
+
+  describe('path binding', () => {
+    const keys = { v1: 'a'.repeat(64) };
+
+    it('should reject an object moved to another path', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/a', 'data for a');
+      const payload = mockSend.mock.calls[0][0].input.Body;
+
+      expect(parseHeader(payload)!.header.flags).toBe(HeaderFlags.PATH_BOUND);
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      await expect(store.get('my-bucket/b')).rejects.toThrow(DecryptionError);
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      await expect(store.get('other-bucket/a')).rejects.toThrow(
+        DecryptionError,
+      );
+    });
+
+    it('should read unbound objects only when allowed', async () => {
+      const payload = encryptPayload(Buffer.from('unbound'), {
+        kid: 'v1',
+        key: Buffer.from(keys.v1, 'hex'),
+      });
+      const strict = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      const lenient = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        allowUnboundObjects: true,
+        s3Config: {},
+      });
+
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      await expect(strict.get('my-bucket/a')).rejects.toThrow(
+        'is not bound to its path',
+      );
+      mockSend.mockResolvedValueOnce({ Body: Readable.from([payload]) });
+      expect((await lenient.get('my-bucket/a')).toString()).toBe('unbound');
+    });
+  });
+
+  describe('retries and cancellation', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    const slowDown = () =>
+      Object.assign(new Error('Please reduce your request rate.'), {
+        name: 'SlowDown',
+        $fault: 'server',
+        $metadata: { httpStatusCode: 503, requestId: 'req-1' },
+      });
+    const createStore = () =>
+      new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+        retry: { maxAttempts: 3, baseDelay: 0 },
+      });
+
+    it('should turn off the SDK retries in favour of its own', () => {
+      createStore();
+      expect(mockS3Client.mock.calls[0][0].maxAttempts).toBe(1);
+    });
+
+    it('should retry a throttled request', async () => {
+      const store = createStore();
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/a', 'data');
+      const payload = mockSend.mock.calls[0][0].input.Body;
+
+      mockSend
+        .mockRejectedValueOnce(slowDown())
+        .mockResolvedValueOnce({ Body: Readable.from([payload]) });
+
+      expect((await store.get('my-bucket/a')).toString()).toBe('data');
+      expect(mockSend).toHaveBeenCalledTimes(3);
+    });
+
+    it('should count retries in the metrics', async () => {
+      const metrics = new InMemoryCollector();
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+        retry: { maxAttempts: 3, baseDelay: 0 },
+        metrics,
+      });
+      mockSend.mockRejectedValueOnce(slowDown()).mockResolvedValueOnce({});
+
+      await store.delete('my-bucket/a');
+
+      expect(
+        metrics.sum('s3store.retries', { operation: 'DeleteObject' }),
+      ).toBe(1);
+    });
+
+    it('should describe the last failure in the S3Error', async () => {
+      const store = createStore();
+      mockSend.mockRejectedValue(slowDown());
+
+      const error = await store.delete('my-bucket/a').catch((err) => err);
+
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(error).toBeInstanceOf(S3Error);
+      expect(error).toMatchObject({
+        message: 'S3 DeleteObject failed: Please reduce your request rate.',
+        statusCode: 503,
+        code: 'SlowDown',
+        requestId: 'req-1',
+        attempts: 3,
+      });
+    });
+
+    it('should send a stream body only once', async () => {
+      const store = createStore();
+      mockSend.mockRejectedValue(slowDown());
+
+      await expect(
+        store.putStream('my-bucket/a', Readable.from([Buffer.from('data')]), {
+          contentLength: 4,
+        }),
+      ).rejects.toThrow(S3Error);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort a request that exceeds the timeout', async () => {
+      const store = createStore();
+      mockSend.mockImplementation(
+        (_command: unknown, { abortSignal }: { abortSignal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            abortSignal.addEventListener('abort', () =>
+              reject(new Error('Request aborted')),
+            );
+          }),
+      );
+
+      const error = await store
+        .list('my-bucket/folder/', 0, 10, false, { timeout: 5 })
+        .catch((err) => err);
+
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect(error).toMatchObject({ code: 'TimeoutError', attempts: 3 });
+    });
+
+    it('should not send a request once the signal is aborted', async () => {
+      const store = createStore();
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await store
+        .get('my-bucket/a', { signal: controller.signal })
+        .catch((err) => err);
+
+      expect(mockSend).not.toHaveBeenCalled();
+      expect(error).toBeInstanceOf(S3Error);
+      expect(error.code).toBe('AbortError');
+    });
+  });
+
+  describe('copy and move', () => {
+    const keys = { v1: 'a'.repeat(64) };
+
+    it('should check the object it replaces when given conditions', async () => {
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend: new MemoryBackend(),
+      });
+      await store.put('bucket/src', 'new');
+      await store.put('bucket/dst', 'existing');
+
+      await expect(
+        store.copy('bucket/src', 'bucket/dst', { ifNoneMatch: '*' }),
+      ).rejects.toThrow(PreconditionFailedError);
+      await store.copy('bucket/src', 'bucket/other', { ifNoneMatch: '*' });
+
+      expect((await store.get('bucket/dst')).toString()).toBe('existing');
+      expect((await store.get('bucket/other')).toString()).toBe('new');
+    });
+    let objects: Map<string, Buffer>;
+    let parts: Buffer[];
+
+    // An in-memory store of `bucket/key` paths, across buckets.
+    type FakeInput = {
+      Bucket: string;
+      Key: string;
+      Body: Buffer | Readable;
+      Range?: string;
+      CopySource?: string;
+    };
+    const fakeBuckets = async (command: { input: FakeInput }) => {
+      const { Bucket, Key, Body, Range, CopySource } = command.input;
+      const path = `${Bucket}/${Key}`;
+      if (command instanceof PutObjectCommand) {
+        const chunks: Buffer[] = [];
+        for await (const chunk of Body instanceof Readable ? Body : [Body]) {
+          chunks.push(chunk);
+        }
+        objects.set(path, Buffer.concat(chunks));
+        return {};
+      }
+      if (command instanceof GetObjectCommand) {
+        const data = objects.get(path)!;
+        const end = Range ? Number(/-(\d+)$/.exec(Range)![1]) + 1 : undefined;
+        return { Body: Readable.from([data.subarray(0, end)]) };
+      }
+      if (command instanceof CopyObjectCommand) {
+        objects.set(path, objects.get(decodeURIComponent(CopySource!))!);
+        return {};
+      }
+      if (command instanceof DeleteObjectCommand) {
+        objects.delete(path);
+        return {};
+      }
+      if (command instanceof UploadPartCommand) {
+        parts.push(Body as Buffer);
+        return { ETag: `etag-${parts.length}` };
+      }
+      if (command instanceof CompleteMultipartUploadCommand) {
+        objects.set(path, Buffer.concat(parts));
+        parts = [];
+        return {};
+      }
+      return { UploadId: 'upload-1' };
+    };
+
+    beforeEach(() => {
+      objects = new Map();
+      parts = [];
+      mockSend.mockImplementation(fakeBuckets);
+    });
+
+    it('should re-encrypt a bound object for another bucket', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      await store.put('src-bucket/a', 'data', {
+        contentType: 'text/plain',
+        metadata: { owner: 'a' },
+      });
+
+      await store.copy('src-bucket/a', 'dst-bucket/folder/b');
+
+      expect(CopyObjectCommand).not.toHaveBeenCalled();
+      expect(objects.get('dst-bucket/folder/b.enc')).not.toEqual(
+        objects.get('src-bucket/a.enc'),
+      );
+      expect((await store.get('dst-bucket/folder/b')).toString()).toBe('data');
+      const info = await store.head('dst-bucket/folder/b');
+      expect(info.contentType).toBe('text/plain');
+      expect(info.metadata).toEqual({ owner: 'a' });
+      expect((await store.get('src-bucket/a')).toString()).toBe('data');
+    });
+
+    it('should copy an unbound object on the server', async () => {
+      objects.set(
+        'bucket/old file.enc',
+        encryptPayload(Buffer.from('unbound data'), {
+          kid: 'v1',
+          key: Buffer.from(keys.v1, 'hex'),
+        }),
+      );
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        allowUnboundObjects: true,
+        s3Config: {},
+      });
+
+      await store.copy('bucket/old file', 'other-bucket/new');
+
+      const copy = (CopyObjectCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(copy).toEqual({
+        Bucket: 'other-bucket',
+        Key: 'new.enc',
+        CopySource: 'bucket/old%20file.enc',
+      });
+      expect((await store.get('other-bucket/new')).toString()).toBe(
+        'unbound data',
+      );
+    });
+
+    it('should not copy an unbound object unless allowed', async () => {
+      objects.set(
+        'bucket/a.enc',
+        encryptPayload(Buffer.from('unbound data'), {
+          kid: 'v1',
+          key: Buffer.from(keys.v1, 'hex'),
+        }),
+      );
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+
+      await expect(store.copy('bucket/a', 'bucket/b')).rejects.toThrow(
+        DecryptionError,
+      );
+      expect(objects.has('bucket/b.enc')).toBe(false);
+    });
+
+    it('should move an object and delete the source', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      await store.putStream('bucket/a', Readable.from([Buffer.from('data')]));
+
+      await store.move('bucket/a', 'bucket/b');
+
+      expect(objects.has('bucket/a.enc')).toBe(false);
+      expect((await store.get('bucket/b')).toString()).toBe('data');
+    });
+
+    it('should reject copying an object onto itself', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      await expect(store.move('bucket/a', 'bucket/a')).rejects.toThrow(
+        ValidationError,
+      );
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    it('should throw a NotFoundError for a missing source', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      mockSend.mockRejectedValueOnce(
+        Object.assign(new Error('missing'), { name: 'NoSuchKey' }),
+      );
+      await expect(store.copy('bucket/a', 'bucket/b')).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe('JSON documents', () => {
+    const Config = z.object({
+      name: z.string(),
+      retries: z.number().int().default(3),
+    });
+    let store: SecureS3Store;
+
+    beforeEach(() => {
+      store = new SecureS3Store({
+        keys: { v1: 'a'.repeat(64) },
+        primaryKey: 'v1',
+        backend: new MemoryBackend(),
+      });
+    });
+
+    it('should write and read back a validated document', async () => {
+      await store.putJson('bucket/config.json', { name: 'api' }, Config);
+
+      expect(await store.getJson('bucket/config.json', Config)).toEqual({
+        name: 'api',
+        retries: 3,
+      });
+      expect((await store.head('bucket/config.json')).contentType).toBe(
+        'application/json',
+      );
+      const stored = await store.get('bucket/config.json');
+      expect(JSON.parse(stored.toString())).toEqual({ name: 'api' });
+    });
+
+    it('should refuse to write a value that does not match the schema', async () => {
+      const write = store.putJson(
+        'bucket/config.json',
+        { name: 42 } as unknown as z.input<typeof Config>,
+        Config,
+      );
+
+      await expect(write).rejects.toThrow(SchemaValidationError);
+      await expect(write).rejects.toThrow(
+        'Value for bucket/config.json does not match the schema: name: Invalid input',
+      );
+      expect(await store.exists('bucket/config.json')).toBe(false);
+    });
+
+    it('should report the issues of a stored document that does not match', async () => {
+      await store.putJson('bucket/config.json', { name: 'api', retries: 1.5 });
+
+      const error = await store
+        .getJson('bucket/config.json', Config)
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.issues).toEqual([
+        expect.objectContaining({ path: ['retries'], code: 'invalid_type' }),
+      ]);
+    });
+
+    it('should reject an object that is not JSON', async () => {
+      await store.put('bucket/config.json', 'not json');
+
+      const error = await store
+        .getJson('bucket/config.json', Config)
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.message).toMatch(
+        /^Object at bucket\/config.json is not valid JSON/,
+      );
+      expect(error.issues).toHaveLength(1);
+    });
+
+    it('should compare and swap with the ETag', async () => {
+      await store.putJson('bucket/config.json', { name: 'api' }, Config);
+      const { data, etag } = await store.getJson('bucket/config.json', Config, {
+        withETag: true,
+      });
+
+      await store.putJson(
+        'bucket/config.json',
+        { ...data, retries: 5 },
+        Config,
+        { ifMatch: etag },
+      );
+      await expect(
+        store.putJson('bucket/config.json', data, Config, { ifMatch: etag }),
+      ).rejects.toThrow(PreconditionFailedError);
+      expect((await store.getJson('bucket/config.json', Config)).retries).toBe(
+        5,
+      );
+    });
+  });
+
+  describe('conditional writes', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    const preconditionFailed = () =>
+      Object.assign(new Error('At least one of the preconditions failed'), {
+        name: 'PreconditionFailed',
+        $fault: 'client',
+        $metadata: { httpStatusCode: 412 },
+      });
+
+    it('should return the ETag with the data and send it as If-Match', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/config', 'v1', { ifNoneMatch: '*' });
+      const payload = mockSend.mock.calls[0][0].input.Body;
+      expect(mockSend.mock.calls[0][0].input.IfNoneMatch).toBe('*');
+
+      mockSend.mockResolvedValueOnce({
+        Body: Readable.from([payload]),
+        ETag: '"etag-1"',
+      });
+      const { data, etag } = await store.get('my-bucket/config', {
+        withETag: true,
+      });
+      expect(data.toString()).toBe('v1');
+      expect(etag).toBe('"etag-1"');
+
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/config', 'v2', { ifMatch: etag });
+      expect(mockSend.mock.calls[2][0].input.IfMatch).toBe('"etag-1"');
+    });
+
+    it('should throw a PreconditionFailedError when the object changed', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v1', s3Config: {} });
+      mockSend.mockRejectedValueOnce(preconditionFailed());
+
+      await expect(
+        store.put('my-bucket/config', 'v2', { ifMatch: '"stale"' }),
+      ).rejects.toThrow(PreconditionFailedError);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send the preconditions with CompleteMultipartUpload', async () => {
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+        multipartThreshold: 1024,
+      });
+      mockSend
+        .mockResolvedValueOnce({ UploadId: 'upload-1' })
+        .mockResolvedValueOnce({ ETag: 'part-1' })
+        .mockRejectedValueOnce(preconditionFailed())
+        .mockResolvedValueOnce({});
+
+      await expect(
+        store.put('my-bucket/big', Buffer.alloc(2048, 1), { ifNoneMatch: '*' }),
+      ).rejects.toThrow(PreconditionFailedError);
+      const complete = mockSend.mock.calls.find(
+        ([command]) => command instanceof CompleteMultipartUploadCommand,
+      )![0];
+      expect(complete.input.IfNoneMatch).toBe('*');
+    });
+  });
+
+  describe('versioning', () => {
+    const keys = { v1: 'a'.repeat(64), v2: 'b'.repeat(64) };
+    type Version = { versionId: string; body?: Buffer; lastModified: Date };
+    let versions: Map<string, Version[]>;
+    let clock: number;
+
+    // A bucket with versioning enabled; the newest version of a key comes first.
+    type FakeInput = {
+      Key: string;
+      Body: Buffer;
+      Range?: string;
+      VersionId?: string;
+      Prefix: string;
+    };
+    const fakeBucket = async (command: { input: FakeInput }) => {
+      const { Key, Body, Range, VersionId, Prefix } = command.input;
+      const history = versions.get(Key) || [];
+      const add = (body?: Buffer) => {
+        const version = {
+          versionId: `ver-${++clock}`,
+          body,
+          lastModified: new Date(clock * 1000),
+        };
+        versions.set(Key, [version, ...history]);
+        return { VersionId: version.versionId };
+      };
+      if (command instanceof PutObjectCommand) {
+        return add(Body);
+      }
+      if (command instanceof GetObjectCommand) {
+        const version = VersionId
+          ? history.find((v) => v.versionId === VersionId)
+          : history[0];
+        if (!version?.body) {
+          throw Object.assign(new Error('Not found'), { name: 'NoSuchKey' });
+        }
+        const end = Range ? Number(/-(\d+)$/.exec(Range)![1]) + 1 : undefined;
+        return {
+          Body: Readable.from([version.body.subarray(0, end)]),
+          ContentLength: version.body.length,
+          VersionId: version.versionId,
+        };
+      }
+      if (command instanceof DeleteObjectCommand) {
+        if (VersionId) {
+          versions.set(
+            Key,
+            history.filter((v) => v.versionId !== VersionId),
+          );
+          return {};
+        }
+        return add(undefined);
+      }
+      if (command instanceof ListObjectVersionsCommand) {
+        const all = [...versions.entries()]
+          .filter(([key]) => key.startsWith(Prefix))
+          .flatMap(([key, list]) =>
+            list.map((v, index) => ({
+              Key: key,
+              VersionId: v.versionId,
+              IsLatest: index === 0,
+              LastModified: v.lastModified,
+              body: v.body,
+            })),
+          );
+        return {
+          Versions: all
+            .filter((v) => v.body)
+            .map(({ body, ...v }) => ({ ...v, Size: body!.length })),
+          DeleteMarkers: all
+            .filter((v) => !v.body)
+            .map(({ Key, VersionId, IsLatest, LastModified }) => ({
+              Key,
+              VersionId,
+              IsLatest,
+              LastModified,
+            })),
+        };
+      }
+      throw new Error('Unexpected command');
+    };
+
+    beforeEach(() => {
+      versions = new Map();
+      clock = 0;
+      mockSend.mockImplementation(fakeBucket);
+    });
+
+    it('should list versions and read each with the key it was written with', async () => {
+      const oldStore = new SecureS3Store({
+        keys: { v1: keys.v1 },
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', s3Config: {} });
+      await oldStore.put('my-bucket/cfg/config.json', 'first');
+      await store.put('my-bucket/cfg/config.json', 'second');
+      await store.put('my-bucket/cfg/config.json.bak', 'other key');
+      await store.delete('my-bucket/cfg/config.json');
+
+      const list = await store.listVersions('my-bucket/cfg/config.json');
+
+      expect(
+        list.map((v) => [v.versionId, v.isLatest, v.isDeleteMarker]),
+      ).toEqual([
+        ['ver-4', true, true],
+        ['ver-2', false, false],
+        ['ver-1', false, false],
+      ]);
+      expect(list[1].key).toBe('cfg/config.json');
+      await expect(store.get('my-bucket/cfg/config.json')).rejects.toThrow(
+        NotFoundError,
+      );
+      const first = await store.get('my-bucket/cfg/config.json', {
+        versionId: 'ver-1',
+        withETag: true,
+      });
+      expect(first).toMatchObject({ versionId: 'ver-1' });
+      expect(first.data.toString()).toBe('first');
+      expect(
+        await store.head('my-bucket/cfg/config.json', { versionId: 'ver-1' }),
+      ).toMatchObject({ kid: 'v1', versionId: 'ver-1' });
+      expect(
+        (await store.listVersions('my-bucket/cfg/')).map((v) => v.key),
+      ).toEqual([
+        'cfg/config.json.bak',
+        'cfg/config.json',
+        'cfg/config.json',
+        'cfg/config.json',
+      ]);
+    });
+
+    it('should restore a version with the current key and its metadata', async () => {
+      const oldStore = new SecureS3Store({
+        keys: { v1: keys.v1 },
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', s3Config: {} });
+      await oldStore.put('my-bucket/report', 'original', {
+        contentType: 'text/csv',
+      });
+      await store.put('my-bucket/report', 'overwritten');
+
+      await store.restoreVersion('my-bucket/report', 'ver-1');
+
+      expect((await store.get('my-bucket/report')).toString()).toBe('original');
+      expect(await store.head('my-bucket/report')).toMatchObject({
+        kid: 'v2',
+        contentType: 'text/csv',
+        versionId: 'ver-3',
+      });
+      expect(versions.get('report.enc')).toHaveLength(3);
+    });
+
+    it('should restore only over the latest version given as ifMatch', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', s3Config: {} });
+      await store.put('my-bucket/report', 'original');
+      await store.put('my-bucket/report', 'overwritten');
+
+      await store.restoreVersion('my-bucket/report', 'ver-1', {
+        ifMatch: '"etag-2"',
+      });
+
+      const commands = mockSend.mock.calls.map(([command]) => command);
+      const put = commands.filter((c) => c instanceof PutObjectCommand).pop();
+      expect(put!.input.IfMatch).toBe('"etag-2"');
+      for (const get of commands.filter((c) => c instanceof GetObjectCommand)) {
+        expect(get.input.IfMatch).toBeUndefined();
+        expect(get.input.IfNoneMatch).toBeUndefined();
+      }
+    });
+
+    it('should delete a single version permanently', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', s3Config: {} });
+      await store.put('my-bucket/a', 'one');
+      await store.put('my-bucket/a', 'two');
+
+      await store.delete('my-bucket/a', { versionId: 'ver-2' });
+
+      expect((await store.get('my-bucket/a')).toString()).toBe('one');
+      await expect(
+        store.restoreVersion('my-bucket/a', 'ver-2'),
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should refuse versions on a backend that does not keep them', async () => {
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v2',
+        backend: new MemoryBackend(),
+      });
+
+      await expect(store.listVersions('my-bucket/a')).rejects.toThrow(
+        ValidationError,
+      );
+      await expect(
+        store.get('my-bucket/a', { versionId: 'ver-1' }),
+      ).rejects.toThrow('The storage backend does not keep versions.');
+    });
+  });
+
+  describe('rotate', () => {
+    const keys = { v1: 'a'.repeat(64), v2: 'b'.repeat(64) };
+    let objects: Map<string, Buffer>;
+
+    // A minimal in-memory bucket that understands the commands rotate uses.
+    type FakeInput = {
+      Key: string;
+      Body: Buffer;
+      Range?: string;
+      Prefix: string;
+      StartAfter?: string;
+    };
+    const fakeBucket = async (command: { input: FakeInput }) => {
+      const { Key, Body, Range, Prefix, StartAfter } = command.input;
+      if (command instanceof PutObjectCommand) {
+        objects.set(Key, Body);
+        return {};
+      }
+      if (command instanceof GetObjectCommand) {
+        const data = objects.get(Key)!;
+        const end = Range ? Number(/-(\d+)$/.exec(Range)![1]) + 1 : undefined;
+        return { Body: Readable.from([data.subarray(0, end)]) };
+      }
+      if (command instanceof ListObjectsV2Command) {
+        const contents = [...objects.keys()]
+          .sort()
+          .filter((key) => key.startsWith(Prefix))
+          .filter((key) => !StartAfter || key > StartAfter)
+          .map((key) => ({ Key: key }));
+        return { Contents: contents };
+      }
+      throw new Error('Unexpected command');
+    };
+
+    beforeEach(async () => {
+      objects = new Map();
+      mockSend.mockImplementation(fakeBucket);
+      const oldStore = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      const newStore = new SecureS3Store({
+        keys,
+        primaryKey: 'v2',
+        s3Config: {},
+      });
+      const unknownStore = new SecureS3Store({
+        keys: { v3: 'c'.repeat(64) },
+        primaryKey: 'v3',
+        s3Config: {},
+      });
+      await oldStore.put('bucket/folder/a', 'old data');
+      await newStore.put('bucket/folder/b', 'new data');
+      await unknownStore.put('bucket/folder/c', 'lost data');
+    });
+
+    it('should report what would be migrated in a dry run', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', s3Config: {} });
+      const before = objects.get('folder/a.enc');
+
+      const report = await store.rotate('bucket/folder/', { dryRun: true });
+
+      expect(report).toEqual({
+        dryRun: true,
+        migrated: ['folder/a'],
+        skipped: ['folder/b'],
+        failed: [{ key: 'folder/c', error: 'No secret key found for KID: v3' }],
+        lastKey: 'folder/c',
+      });
+      expect(objects.get('folder/a.enc')).toBe(before);
+    });
+
+    it('should re-encrypt objects with the primary key', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', s3Config: {} });
+      const onCheckpoint = jest.fn();
+
+      const report = await store.rotate('bucket/folder/', { onCheckpoint });
+
+      expect(report.migrated).toEqual(['folder/a']);
+      expect(onCheckpoint).toHaveBeenCalledWith('folder/c');
+      const payload = objects.get('folder/a.enc')!;
+      expect(parseHeader(payload)!.header.kid).toBe('v2');
+      expect((await store.get('bucket/folder/a')).toString()).toBe('old data');
+
+      const second = await store.rotate('bucket/folder/');
+      expect(second.migrated).toEqual([]);
+      expect(second.skipped).toEqual(['folder/a', 'folder/b']);
+    });
+
+    it('should resume after a checkpoint', async () => {
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', s3Config: {} });
+
+      const report = await store.rotate('bucket/folder/', {
+        startAfter: 'folder/a',
+      });
+
+      expect(report.migrated).toEqual([]);
+      expect(report.skipped).toEqual(['folder/b']);
+      expect(report.failed.map((f) => f.key)).toEqual(['folder/c']);
+    });
+
+    it('should keep user metadata', async () => {
+      const oldStore = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+      });
+      await oldStore.put('bucket/folder/a', 'old data', {
+        contentType: 'text/plain',
+      });
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', s3Config: {} });
+
+      await store.rotate('bucket/folder/');
+
+      const info = await store.head('bucket/folder/a');
+      expect(info.kid).toBe('v2');
+      expect(info.contentType).toBe('text/plain');
+    });
+
+    it('should bind unbound objects to their path', async () => {
+      objects.set(
+        'folder/d.enc',
+        encryptPayload(Buffer.from('unbound data'), {
+          kid: 'v2',
+          key: Buffer.from(keys.v2, 'hex'),
+        }),
+      );
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v2',
+        allowUnboundObjects: true,
+        s3Config: {},
+      });
+
+      const report = await store.rotate('bucket/folder/');
+
+      expect(report.migrated).toEqual(['folder/a', 'folder/d']);
+      const { flags } = parseHeader(objects.get('folder/d.enc')!)!.header;
+      expect(flags & HeaderFlags.PATH_BOUND).toBeTruthy();
+    });
+
+    it('should not overwrite an object written during the rotation', async () => {
+      const backend = new MemoryBackend();
+      const writer = new SecureS3Store({ keys, primaryKey: 'v1', backend });
+      await writer.put('bucket/folder/a', 'old data');
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', backend });
+      const get = backend.get.bind(backend);
+      jest.spyOn(backend, 'get').mockImplementationOnce(async (...args) => {
+        const header = await get(...args);
+        await writer.put('bucket/folder/a', 'new data');
+        return header;
+      });
+
+      const report = await store.rotate('bucket/folder/');
+
+      expect(report.migrated).toEqual([]);
+      expect(report.failed).toEqual([
+        { key: 'folder/a', error: expect.stringMatching(/precondition/i) },
+      ]);
+      expect((await store.get('bucket/folder/a')).toString()).toBe('new data');
+    });
+
+    it('should rewrite streamed objects with their length', async () => {
+      const backend = new MemoryBackend();
+      await new SecureS3Store({ keys, primaryKey: 'v1', backend }).putStream(
+        'bucket/folder/big',
+        Readable.from([Buffer.alloc(1000, 1)]),
+      );
+      const store = new SecureS3Store({ keys, primaryKey: 'v2', backend });
+      const put = jest.spyOn(backend, 'put');
+
+      const report = await store.rotate('bucket/folder/');
+
+      expect(report.migrated).toEqual(['folder/big']);
+      expect(put.mock.calls[0][3]).toMatchObject({
+        ifMatch: expect.any(String),
+        contentLength: expect.any(Number),
+      });
+      expect((await store.get('bucket/folder/big')).length).toBe(1000);
+    });
+  });
+
+  describe('verify', () => {
+    const keys = { v1: 'a'.repeat(64), v2: 'b'.repeat(64) };
+    let backend: MemoryBackend;
+    let store: SecureS3Store;
+
+    const stored = async (key: string) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of (await backend.get('bucket', key)).body) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    };
+
+    beforeEach(() => {
+      backend = new MemoryBackend();
+      store = new SecureS3Store({ keys, primaryKey: 'v1', backend });
+    });
+
+    it('should sort objects by outcome', async () => {
+      await store.put('bucket/data/ok', 'fine');
+      await store.putStream(
+        'bucket/data/stream',
+        Readable.from([Buffer.alloc(200_000, 7)]),
+      );
+      await store.put('bucket/data/tampered', 'flipped');
+      const tampered = await stored('data/tampered.enc');
+      tampered[tampered.length - 1] ^= 0xff;
+      await backend.put('bucket', 'data/tampered.enc', tampered);
+      await store.putStream(
+        'bucket/data/truncated',
+        Readable.from([Buffer.alloc(200_000, 7)]),
+      );
+      // Cut after the second of four segments.
+      const truncated = await stored('data/truncated.enc');
+      const { length } = parseHeader(truncated)!;
+      await backend.put(
+        'bucket',
+        'data/truncated.enc',
+        truncated.subarray(0, length + 2 * (64 * 1024 + 16)),
+      );
+      await new SecureS3Store({
+        keys: { v2: keys.v2 },
+        primaryKey: 'v2',
+        backend,
+      }).put('bucket/data/other-key', 'written with v2');
+      await backend.put(
+        'bucket',
+        'data/unbound.enc',
+        encryptPayload(Buffer.from('unbound'), {
+          kid: 'v1',
+          key: Buffer.from(keys.v1, 'hex'),
+        }),
+      );
+      await backend.put('bucket', 'data/notes.txt', Buffer.from('plain'));
+      await backend.put('bucket', 'data/', Buffer.alloc(0));
+
+      const results: string[] = [];
+      const report = await new SecureS3Store({
+        keys: { v1: keys.v1 },
+        primaryKey: 'v1',
+        backend,
+      }).verify('bucket/data/', {
+        onResult: ({ key, status }) => results.push(`${status} ${key}`),
+      });
+
+      expect(report.ok.sort()).toEqual(['data/ok', 'data/stream']);
+      expect(report.unknownKey).toEqual([
+        {
+          key: 'data/other-key',
+          kid: 'v2',
+          error: 'No secret key found for KID: v2',
+        },
+      ]);
+      expect(report.unbound).toEqual(['data/unbound']);
+      expect(report.tampered).toEqual([
+        {
+          key: 'data/tampered',
+          error: 'Unable to decrypt data: authentication failed.',
+        },
+      ]);
+      expect(report.truncated).toEqual([
+        {
+          key: 'data/truncated',
+          error: 'Encrypted payload is truncated: missing final segment.',
+        },
+      ]);
+      expect(report.failed).toEqual([]);
+      expect(report.stragglers).toEqual(['data/notes.txt']);
+      expect(results).toHaveLength(6);
+    });
+
+    it('should report a truncated header', async () => {
+      await store.put('bucket/dir/short', 'data');
+      const payload = await stored('dir/short.enc');
+      await backend.put('bucket', 'dir/short.enc', payload.subarray(0, 10));
+
+      const report = await store.verify('bucket/dir/');
+
+      expect(report.truncated).toEqual([
+        {
+          key: 'dir/short',
+          error: 'Encrypted payload is truncated: incomplete header.',
+        },
+      ]);
+    });
+
+    it('should report objects that cannot be downloaded', async () => {
+      await store.put('bucket/dir/a', 'data');
+      jest
+        .spyOn(backend, 'get')
+        .mockRejectedValue(new Error('connection reset'));
+
+      const report = await store.verify('bucket/dir/');
+
+      expect(report.failed).toEqual([
+        { key: 'dir/a', error: 'connection reset' },
+      ]);
+    });
+  });
+
+  describe('audit events', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    let events: AuditEvent[];
+    let store: SecureS3Store;
+
+    beforeEach(() => {
+      events = [];
+      store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend: new MemoryBackend(),
+        onAudit: (event) => {
+          events.push(event);
+        },
+      });
+    });
+
+    it('should record each operation with its actor, key, sizes and outcome', async () => {
+      const audit = { actor: 'alice', context: { ticket: 'T-1' } };
+      await store.put('bucket/docs/a.txt', 'hello', { audit });
+      await store.get('bucket/docs/a.txt', { audit });
+      await expect(store.get('bucket/docs/missing', { audit })).rejects.toThrow(
+        NotFoundError,
+      );
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          operation: 'put',
+          path: 'bucket/docs/a.txt',
+          actor: 'alice',
+          context: { ticket: 'T-1' },
+          kid: 'v1',
+          bytes: 5,
+          storedBytes: expect.any(Number),
+          durationMs: expect.any(Number),
+          outcome: 'success',
+        }),
+        expect.objectContaining({
+          operation: 'get',
+          kid: 'v1',
+          bytes: 5,
+          outcome: 'success',
+        }),
+        expect.objectContaining({
+          operation: 'get',
+          path: 'bucket/docs/missing',
+          outcome: 'failure',
+          error: 'NotFoundError',
+        }),
+      ]);
+      expect(Date.parse(events[0].time)).not.toBeNaN();
+    });
+
+    it('should emit a stream event when the stream ends', async () => {
+      await store.putStream(
+        'bucket/big.bin',
+        Readable.from([Buffer.alloc(100_000, 1)]),
+      );
+      const stream = await store.getStream('bucket/big.bin');
+      expect(events.map((event) => event.operation)).toEqual(['putStream']);
+
+      for await (const chunk of stream) {
+        void chunk;
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(events[1]).toMatchObject({
+        operation: 'getStream',
+        kid: 'v1',
+        storedBytes: expect.any(Number),
+        outcome: 'success',
+      });
+    });
+
+    it('should emit one delete per object and survive a failing listener', async () => {
+      await store.putMany([
+        { path: 'bucket/dir/a', data: 'a' },
+        { path: 'bucket/dir/b', data: 'b' },
+      ]);
+      events = [];
+
+      await store.deletePrefix('bucket/dir/', { audit: { actor: 'bob' } });
+      expect(
+        events
+          .filter((event) => event.operation === 'delete')
+          .map((event) => event.path)
+          .sort(),
+      ).toEqual(['bucket/dir/a', 'bucket/dir/b']);
+      expect(events[events.length - 1]).toMatchObject({
+        operation: 'deletePrefix',
+        actor: 'bob',
+        count: 2,
+      });
+
+      const failing = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend: new MemoryBackend(),
+        onAudit: () => Promise.reject(new Error('sink down')),
+      });
+      await expect(failing.put('bucket/x', 'x')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('metrics and tracing', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    let collector: InMemoryCollector;
+    let backend: MemoryBackend;
+    let store: SecureS3Store;
+
+    beforeEach(() => {
+      collector = new InMemoryCollector();
+      backend = new MemoryBackend();
+      store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend,
+        metrics: collector,
+        tracer: collector,
+      });
+    });
+
+    it('should count operations by outcome and error class', async () => {
+      await store.put('bucket/a', 'hello');
+      await store.get('bucket/a');
+      await store.put('bucket/b', 'x');
+      await new SecureS3Store({
+        keys: { v2: 'b'.repeat(64) },
+        primaryKey: 'v2',
+        backend,
+      }).put('bucket/b', 'y');
+      await expect(store.get('bucket/b')).rejects.toThrow(DecryptionError);
+
+      expect(collector.sum('s3store.operations', { operation: 'put' })).toBe(2);
+      expect(
+        collector.sum('s3store.operations', {
+          operation: 'get',
+          outcome: 'failure',
+          error: 'DecryptionError',
+        }),
+      ).toBe(1);
+      expect(collector.sum('s3store.bytes.in')).toBe(6);
+      expect(collector.sum('s3store.bytes.out')).toBe(5);
+      expect(
+        collector.values('s3store.operation.duration', { operation: 'get' }),
+      ).toHaveLength(2);
+    });
+
+    it('should time encryption and storage separately', async () => {
+      await store.put('bucket/a', 'hello');
+      await store.get('bucket/a');
+
+      for (const operation of ['put', 'get']) {
+        for (const phase of ['crypto', 'storage']) {
+          expect(
+            collector.values('s3store.phase.duration', { operation, phase }),
+          ).toEqual([expect.any(Number)]);
+        }
+      }
+    });
+
+    it('should end a span per operation with its outcome', async () => {
+      await store.put('bucket/a', 'hello');
+      await expect(store.head('bucket/missing')).rejects.toThrow(NotFoundError);
+
+      expect(collector.spans).toEqual([
+        expect.objectContaining({
+          name: 's3store.put',
+          attributes: expect.objectContaining({
+            's3store.operation': 'put',
+            's3store.outcome': 'success',
+            's3store.kid': 'v1',
+            's3store.bytes': 5,
+            's3store.crypto_ms': expect.any(Number),
+          }),
+          status: { code: 1 },
+          ended: true,
+        }),
+        expect.objectContaining({
+          name: 's3store.head',
+          status: expect.objectContaining({ code: 2 }),
+          exceptions: [expect.any(NotFoundError)],
+          ended: true,
+        }),
+      ]);
+    });
+  });
+
+  describe('read cache', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    let collector: InMemoryCollector;
+    let backend: MemoryBackend;
+    let getSpy: jest.SpyInstance;
+
+    const createStore = (cache = {}) =>
+      new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend,
+        metrics: collector,
+        cache,
+      });
+
+    beforeEach(() => {
+      collector = new InMemoryCollector();
+      backend = new MemoryBackend();
+      getSpy = jest.spyOn(backend, 'get');
+    });
+
+    it('should serve repeated reads from memory', async () => {
+      const store = createStore();
+      await store.put('bucket/config.json', '{"n":1}');
+
+      const first = await store.get('bucket/config.json', { withETag: true });
+      first.data.fill(0);
+      const second = await store.get('bucket/config.json', { withETag: true });
+
+      expect(second.data.toString()).toBe('{"n":1}');
+      expect(second.etag).toBe(first.etag);
+      expect(getSpy).toHaveBeenCalledTimes(1);
+      expect(collector.sum('s3store.cache.misses')).toBe(1);
+      expect(collector.sum('s3store.cache.hits', { revalidated: false })).toBe(
+        1,
+      );
+    });
+
+    it('should revalidate expired entries with the ETag', async () => {
+      const store = createStore({ ttl: 0 });
+      const other = createStore();
+      await store.put('bucket/config.json', 'one');
+      const { etag } = await store.get('bucket/config.json', {
+        withETag: true,
+      });
+
+      expect((await store.get('bucket/config.json')).toString()).toBe('one');
+      expect(getSpy).toHaveBeenLastCalledWith(
+        'bucket',
+        'config.json.enc',
+        expect.objectContaining({ ifNoneMatch: etag }),
+      );
+      expect(collector.sum('s3store.cache.hits', { revalidated: true })).toBe(
+        1,
+      );
+
+      await other.put('bucket/config.json', 'two');
+      expect((await store.get('bucket/config.json')).toString()).toBe('two');
+      expect(collector.sum('s3store.cache.misses')).toBe(2);
+    });
+
+    it('should be invalidated by writes and deletes through the store', async () => {
+      const store = createStore();
+      await store.put('bucket/a', 'one');
+      await store.get('bucket/a');
+
+      await store.put('bucket/a', 'two');
+      expect((await store.get('bucket/a')).toString()).toBe('two');
+      await store.putStream('bucket/a', Readable.from([Buffer.from('three')]));
+      expect((await store.get('bucket/a')).toString()).toBe('three');
+      await store.put('bucket/b', 'four');
+      await store.copy('bucket/b', 'bucket/a');
+      expect((await store.get('bucket/a')).toString()).toBe('four');
+
+      await store.delete('bucket/a');
+      await expect(store.get('bucket/a')).rejects.toThrow(NotFoundError);
+      await store.put('bucket/a', 'five');
+      await store.get('bucket/a');
+      await store.deleteMany(['bucket/a']);
+      await expect(store.get('bucket/a')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should drop a read that raced with a write', async () => {
+      const store = createStore();
+      await store.put('bucket/a', 'old');
+      const read = store.get('bucket/a');
+      await store.put('bucket/a', 'new');
+      await read;
+
+      expect((await store.get('bucket/a')).toString()).toBe('new');
+    });
+
+    it('should not rotate or copy stale cached data over a newer write', async () => {
+      const bothKeys = { ...keys, v2: 'b'.repeat(64) };
+      const writer = new SecureS3Store({
+        keys: bothKeys,
+        primaryKey: 'v1',
+        backend,
+      });
+      const store = new SecureS3Store({
+        keys: bothKeys,
+        primaryKey: 'v2',
+        backend,
+        cache: { ttl: 60_000 },
+      });
+      await writer.put('bucket/folder/a', 'old');
+      await store.get('bucket/folder/a');
+      await writer.put('bucket/folder/a', 'new from another process');
+
+      await store.copy('bucket/folder/a', 'bucket/copy');
+      const report = await store.rotate('bucket/folder/');
+
+      expect(report.migrated).toEqual(['folder/a']);
+      expect((await writer.get('bucket/folder/a')).toString()).toBe(
+        'new from another process',
+      );
+      expect((await writer.get('bucket/copy')).toString()).toBe(
+        'new from another process',
+      );
+    });
+
+    it('should evict the least recently used objects beyond maxBytes', async () => {
+      const store = createStore({ maxBytes: 10 });
+      await store.put('bucket/a', '12345');
+      await store.put('bucket/b', '12345');
+      await store.put('bucket/c', '12345');
+      await store.get('bucket/a');
+      await store.get('bucket/b');
+      await store.get('bucket/a');
+      await store.get('bucket/c');
+      getSpy.mockClear();
+
+      await store.get('bucket/a');
+      await store.get('bucket/c');
+      expect(getSpy).not.toHaveBeenCalled();
+      await store.get('bucket/b');
+      expect(getSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should forget everything on clearCache', async () => {
+      const store = createStore();
+      await store.put('bucket/a', 'one');
+      await store.get('bucket/a');
+      store.clearCache();
+      await store.get('bucket/a');
+
+      expect(getSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revalidate over S3 with If-None-Match', async () => {
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        s3Config: {},
+        cache: { ttl: 0 },
+      });
+      mockSend.mockResolvedValueOnce({});
+      await store.put('my-bucket/my-key', 'hello');
+      const body = mockSend.mock.calls[0][0].input.Body;
+
+      mockSend.mockResolvedValueOnce({
+        Body: Readable.from([body]),
+        ETag: '"abc"',
+      });
+      await store.get('my-bucket/my-key');
+      mockSend.mockRejectedValueOnce(
+        Object.assign(new Error('Not Modified'), {
+          name: '304',
+          $metadata: { httpStatusCode: 304 },
+        }),
+      );
+
+      expect((await store.get('my-bucket/my-key')).toString()).toBe('hello');
+      const command = mockSend.mock.calls[2][0];
+      expect(command).toBeInstanceOf(GetObjectCommand);
+      expect(command.input.IfNoneMatch).toBe('"abc"');
+    });
+
+    it('should refuse invalid limits', () => {
+      expect(() => createStore({ maxBytes: 0 })).toThrow(ValidationError);
+      expect(() => createStore({ ttl: -1 })).toThrow(ValidationError);
+    });
+  });
+
+  describe('ciphers', () => {
+    const keys = { v1: 'a'.repeat(64) };
+
+    it('should write with the configured cipher and read every cipher', async () => {
+      const backend = new MemoryBackend();
+      const chacha = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend,
+        cipher: 'chacha20-poly1305',
+      });
+      const aes = new SecureS3Store({ keys, primaryKey: 'v1', backend });
+
+      await chacha.put('bucket/a', 'chacha');
+      await chacha.putStream('bucket/b', Readable.from([Buffer.from('big')]));
+      await aes.put('bucket/c', 'aes');
+
+      expect((await aes.head('bucket/a')).cipher).toBe('chacha20-poly1305');
+      expect((await aes.head('bucket/b')).cipher).toBe('chacha20-poly1305');
+      expect((await chacha.head('bucket/c')).cipher).toBe('aes-256-gcm');
+      expect((await aes.get('bucket/a')).toString()).toBe('chacha');
+      expect((await aes.get('bucket/b')).toString()).toBe('big');
+      expect((await chacha.get('bucket/c')).toString()).toBe('aes');
+    });
+
+    it('should re-encrypt objects under another cipher on rotation', async () => {
+      const backend = new MemoryBackend();
+      await new SecureS3Store({ keys, primaryKey: 'v1', backend }).put(
+        'bucket/folder/a',
+        'data',
+      );
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend,
+        cipher: 'xchacha20-poly1305',
+      });
+
+      expect((await store.rotate('bucket/folder/')).migrated).toEqual([
+        'folder/a',
+      ]);
+      expect((await store.rotate('bucket/folder/')).skipped).toEqual([
+        'folder/a',
+      ]);
+      expect(await store.head('bucket/folder/a')).toMatchObject({
+        kid: 'v1',
+        cipher: 'xchacha20-poly1305',
+      });
+      expect((await store.get('bucket/folder/a')).toString()).toBe('data');
+    });
+
+    it('should refuse an unknown cipher', () => {
+      expect(
+        () =>
+          new SecureS3Store({
+            keys,
+            primaryKey: 'v1',
+            backend: new MemoryBackend(),
+            cipher: 'aes-128-cbc' as 'aes-256-gcm',
+          }),
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('logging', () => {
+    const keys = { v1: 'a'.repeat(64) };
+    const createLogger = () => ({
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    });
+
+    it('should log through an injected logger', async () => {
+      const logger = createLogger();
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend: new MemoryBackend(),
+        logger,
+      });
+
+      await store.put('bucket/users/42.json', '{}');
+
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringContaining('bucket/users/42.json'),
+      );
+    });
+
+    it('should mask paths and error messages when redacting paths', async () => {
+      const logger = createLogger();
+      const store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        backend: new MemoryBackend(),
+        logger,
+        redact: { paths: true },
+      });
+
+      await store.put('bucket/users/42.json', '{}');
+      await expect(store.get('bucket/users/43.json')).rejects.toThrow(
+        NotFoundError,
+      );
+
+      const logged = JSON.stringify([
+        ...logger.info.mock.calls,
+        ...logger.error.mock.calls,
+      ]);
+      expect(logged).toContain('bucket/[REDACTED]');
+      expect(logged).toContain('NotFoundError');
+      expect(logged).not.toContain('users/4');
+    });
+  });
+
+  describe('encrypted names', () => {
+    const keys = {
+      v1: 'a'.repeat(64),
+      v2: 'b'.repeat(64),
+      names: 'c'.repeat(64),
+    };
+    let backend: MemoryBackend;
+    let store: SecureS3Store;
+
+    const storedKeys = async () =>
+      (await backend.list('bucket', { prefix: '' })).objects.map(
+        (obj) => obj.key,
+      );
+
+    beforeEach(() => {
+      backend = new MemoryBackend();
+      store = new SecureS3Store({
+        keys,
+        primaryKey: 'v1',
+        nameKeyId: 'names',
+        backend,
+      });
+    });
+
+    it('should store objects under encrypted keys and read them by plaintext path', async () => {
+      await store.put('bucket/reports/q3.csv', 'revenue');
+      await store.putStream(
+        'bucket/reports/big.bin',
+        Readable.from([Buffer.alloc(100_000, 1)]),
+      );
+
+      const stored = await storedKeys();
+      expect(stored).toHaveLength(2);
+      for (const key of stored) {
+        expect(key).not.toMatch(/reports|q3|big/);
+        expect(key.endsWith('.enc')).toBe(true);
+      }
+      expect((await store.get('bucket/reports/q3.csv')).toString()).toBe(
+        'revenue',
+      );
+      expect((await store.head('bucket/reports/big.bin')).plaintextSize).toBe(
+        100_000,
+      );
+      expect(await store.exists('bucket/reports/q3.csv')).toBe(true);
+      expect(await store.exists('bucket/reports/q4.csv')).toBe(false);
+
+      const { body } = await backend.get('bucket', stored[0], {
+        range: { start: 0, end: 4095 },
+      });
+      const chunks: Buffer[] = [];
+      for await (const chunk of body) {
+        chunks.push(chunk);
+      }
+      const { header } = parseHeader(Buffer.concat(chunks))!;
+      expect(header.flags & HeaderFlags.ENCRYPTED_NAME).toBeTruthy();
+      expect(header.nameKid).toBe('names');
+    });
+
+    it('should decrypt keys and folders in listings', async () => {
+      await store.put('bucket/docs/a.txt', 'a');
+      await store.put('bucket/docs/sub/b.txt', 'b');
+      await store.put('bucket/top.txt', 'top');
+
+      const page = await store.listPage('bucket/docs/');
+      expect(page.entries.map((entry) => entry.key).sort()).toEqual([
+        'docs/a.txt',
+        'docs/sub/',
+      ]);
+      expect((await store.list('bucket/docs/', 0, 10, true)).sort()).toEqual([
+        'docs/a.txt',
+        'docs/sub/b.txt',
+      ]);
+      await expect(store.listPage('bucket/docs/a')).rejects.toThrow(
+        ValidationError,
+      );
+    });
+
+    it('should move, rotate, verify and delete by plaintext key', async () => {
+      await new SecureS3Store({ keys, primaryKey: 'v1', backend }).put(
+        'bucket/dir/plain.txt',
+        'not mine',
+      );
+      await store.put('bucket/dir/a.txt', 'a');
+      await store.put('bucket/dir/b.txt', 'b');
+      await store.move('bucket/dir/a.txt', 'bucket/dir/c.txt');
+      const folder = (await storedKeys())
+        .find((key) => !key.startsWith('dir/'))!
+        .replace(/[^/]*$/, '');
+      await backend.put('bucket', `${folder}foreign.enc`, Buffer.from('x'));
+
+      const rotated = await new SecureS3Store({
+        keys,
+        primaryKey: 'v2',
+        nameKeyId: 'names',
+        backend,
+      }).rotate('bucket/dir/');
+      expect(rotated.migrated.sort()).toEqual(['dir/b.txt', 'dir/c.txt']);
+
+      const report = await store.verify('bucket/dir/');
+      expect(report.ok.sort()).toEqual(['dir/b.txt', 'dir/c.txt']);
+      expect(report.stragglers).toEqual([`${folder}foreign.enc`]);
+
+      const deleted = await store.deletePrefix('bucket/dir/');
+      expect(deleted.deleted.sort()).toEqual(['dir/b.txt', 'dir/c.txt']);
+      expect((await storedKeys()).sort()).toEqual(
+        ['dir/plain.txt.enc', `${folder}foreign.enc`].sort(),
+      );
+    });
+
+    it('should require the name key to be one of the keys', () => {
+      expect(
+        () =>
+          new SecureS3Store({
+            keys,
+            primaryKey: 'v1',
+            nameKeyId: 'missing',
+            backend,
+          }),
+      ).toThrow(ValidationError);
+    });
+  });
+
   describe('parsePath', () => {
     it.each([
       ['bucket/'],
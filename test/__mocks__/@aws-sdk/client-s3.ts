@@ -12,5 +12,21 @@ function mockCommand(
 
 export const PutObjectCommand = jest.fn().mockImplementation(mockCommand);
 export const GetObjectCommand = jest.fn().mockImplementation(mockCommand);
+export const CopyObjectCommand = jest.fn().mockImplementation(mockCommand);
 export const DeleteObjectCommand = jest.fn().mockImplementation(mockCommand);
+export const DeleteObjectsCommand = jest.fn().mockImplementation(mockCommand);
+export const HeadObjectCommand = jest.fn().mockImplementation(mockCommand);
 export const ListObjectsV2Command = jest.fn().mockImplementation(mockCommand);
+export const ListObjectVersionsCommand = jest
+  .fn()
+  .mockImplementation(mockCommand);
+export const CreateMultipartUploadCommand = jest
+  .fn()
+  .mockImplementation(mockCommand);
+export const UploadPartCommand = jest.fn().mockImplementation(mockCommand);
+export const CompleteMultipartUploadCommand = jest
+  .fn()
+  .mockImplementation(mockCommand);
+export const AbortMultipartUploadCommand = jest
+  .fn()
+  .mockImplementation(mockCommand);
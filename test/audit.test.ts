@@ -0,0 +1,103 @@
+// test/audit.test.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import {
+  AuditEvent,
+  JsonLinesAuditSink,
+  verifyAuditLog,
+} from '../src/audit.js';
+
+const event = (n: number): AuditEvent => ({
+  time: new Date(n * 1000).toISOString(),
+  operation: 'get',
+  path: `bucket/object-${n}`,
+  actor: 'tester',
+  durationMs: n,
+  outcome: 'success',
+});
+
+describe('JsonLinesAuditSink', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    file = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const readLines = () => fs.readFileSync(file, 'utf8').trimEnd().split('\n');
+
+  it('should write one JSON line per event to a stream', () => {
+    const stream = new PassThrough();
+    const sink = new JsonLinesAuditSink({ stream });
+
+    sink.write(event(1));
+    sink.write(event(2));
+
+    const lines = stream.read().toString().trimEnd().split('\n');
+    expect(lines.map((line: string) => JSON.parse(line))).toEqual([
+      event(1),
+      event(2),
+    ]);
+  });
+
+  it('should report a file that cannot be opened instead of crashing', async () => {
+    const sink = new JsonLinesAuditSink({
+      path: path.join(dir, 'missing', 'audit.jsonl'),
+    });
+    sink.write(event(1));
+
+    await expect(sink.close()).rejects.toThrow(/ENOENT/);
+    expect(() => sink.write(event(2))).toThrow(/ENOENT/);
+  });
+
+  it('should chain lines and continue the chain when reopened', async () => {
+    const first = new JsonLinesAuditSink({ path: file, chain: true });
+    first.write(event(1));
+    first.write(event(2));
+    await first.close();
+    const second = new JsonLinesAuditSink({ path: file, chain: true });
+    second.write(event(3));
+    await second.close();
+
+    const records = readLines().map((line) => JSON.parse(line));
+    expect(records).toHaveLength(3);
+    expect(records[0].prevHash).toBe('0'.repeat(64));
+    expect(records[1].prevHash).toBe(records[0].hash);
+    expect(records[2].prevHash).toBe(records[1].hash);
+    expect(await verifyAuditLog(file)).toEqual({
+      valid: true,
+      records: 3,
+      lastHash: records[2].hash,
+    });
+  });
+
+  it('should detect edited and removed lines', async () => {
+    const sink = new JsonLinesAuditSink({ path: file, chain: true });
+    [1, 2, 3].forEach((n) => sink.write(event(n)));
+    await sink.close();
+    const lines = readLines();
+
+    fs.writeFileSync(
+      file,
+      [lines[0], lines[1].replace('tester', 'someone'), lines[2]].join('\n'),
+    );
+    expect(await verifyAuditLog(file)).toMatchObject({
+      valid: false,
+      records: 1,
+      error: { line: 2, message: 'Line does not match its hash.' },
+    });
+
+    fs.writeFileSync(file, [lines[0], lines[2]].join('\n'));
+    expect(await verifyAuditLog(file)).toMatchObject({
+      valid: false,
+      error: { line: 2, message: 'Line does not follow the previous line.' },
+    });
+  });
+});
@@ -0,0 +1,77 @@
+// test/cache.test.ts
+import { ReadCache } from '../src/cache.js';
+
+describe('ReadCache', () => {
+  const object = (text: string, etag = '"e"') => ({
+    data: Buffer.from(text),
+    etag,
+  });
+
+  it('should return copies of cached data', () => {
+    const cache = new ReadCache();
+    const source = Buffer.from('secret');
+    cache.set('bucket/a', { data: source, etag: '"e"' }, cache.generation);
+    source.fill(0);
+
+    const first = cache.lookup('bucket/a')!;
+    first.object.data.fill(0);
+    const second = cache.lookup('bucket/a')!;
+    expect(second.object.data.toString()).toBe('secret');
+    expect(second.fresh).toBe(true);
+    expect(cache.size).toBe(6);
+  });
+
+  it('should expire entries after the ttl and refresh them', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      const cache = new ReadCache({ ttl: 100 });
+      cache.set('bucket/a', object('one'), cache.generation);
+      now.mockReturnValue(1100);
+      expect(cache.lookup('bucket/a')!.fresh).toBe(false);
+
+      cache.refresh('bucket/a');
+      expect(cache.lookup('bucket/a')!.fresh).toBe(true);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should skip objects larger than maxBytes', () => {
+    const cache = new ReadCache({ maxBytes: 4 });
+    cache.set('bucket/a', object('12345'), cache.generation);
+    expect(cache.lookup('bucket/a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should not cache a read that started before an invalidation', () => {
+    const cache = new ReadCache();
+    const generation = cache.generation;
+    cache.invalidate('bucket/other');
+    cache.set('bucket/a', object('stale'), generation);
+    expect(cache.lookup('bucket/a')).toBeUndefined();
+  });
+
+  it('should zero evicted plaintext with zeroOnEvict', () => {
+    const cache = new ReadCache({ maxBytes: 8, zeroOnEvict: true });
+    // The cache keeps a copy of each object, allocated with `Buffer.alloc`.
+    const alloc = jest.spyOn(Buffer, 'alloc');
+    let buffers: Buffer[];
+    try {
+      cache.set('bucket/a', object('1234'), cache.generation);
+      cache.set('bucket/b', object('5678'), cache.generation);
+      buffers = alloc.mock.results.map((result) => result.value);
+    } finally {
+      alloc.mockRestore();
+    }
+    expect(buffers.map((buffer) => buffer.toString())).toEqual([
+      '1234',
+      '5678',
+    ]);
+
+    cache.set('bucket/c', object('9abc'), cache.generation);
+    expect(buffers[0].equals(Buffer.alloc(4))).toBe(true);
+    cache.clear();
+    expect(buffers[1].equals(Buffer.alloc(4))).toBe(true);
+    expect(cache.size).toBe(0);
+  });
+});
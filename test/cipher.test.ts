@@ -0,0 +1,91 @@
+// test/cipher.test.ts
+import { randomBytes } from 'crypto';
+import {
+  cipherId,
+  createAeadCipher,
+  createAeadDecipher,
+  nonceLength,
+  Cipher,
+} from '../src/cipher.js';
+import { CipherAlgorithm } from '../src/header.js';
+import { DecryptionError, ValidationError } from '../src/errors.js';
+
+describe('ciphers', () => {
+  it('should match the XChaCha20-Poly1305 test vector', () => {
+    // draft-irtf-cfrg-xchacha-03, appendix A.3.1
+    const key = Buffer.from(
+      '808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f',
+      'hex',
+    );
+    const nonce = Buffer.from(
+      '404142434445464748494a4b4c4d4e4f5051525354555657',
+      'hex',
+    );
+    const plaintext = Buffer.from(
+      "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.",
+    );
+    const cipher = createAeadCipher(
+      CipherAlgorithm.XCHACHA20_POLY1305,
+      key,
+      nonce,
+    );
+    cipher.setAAD(Buffer.from('50515253c0c1c2c3c4c5c6c7', 'hex'));
+    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    expect(encrypted.subarray(0, 16).toString('hex')).toBe(
+      'bd6d179d3e83d43b9576579493c0e939',
+    );
+    expect(cipher.getAuthTag().toString('hex')).toBe(
+      'c0875924c1c7987947deafd8780acf49',
+    );
+  });
+
+  it.each<Cipher>(['aes-256-gcm', 'chacha20-poly1305', 'xchacha20-poly1305'])(
+    'should round-trip and authenticate with %s',
+    (name) => {
+      const algorithm = cipherId(name);
+      const key = randomBytes(32);
+      const nonce = randomBytes(nonceLength(algorithm));
+      const aad = Buffer.from('header');
+      const cipher = createAeadCipher(algorithm, key, nonce);
+      cipher.setAAD(aad);
+      const encrypted = Buffer.concat([
+        cipher.update(Buffer.from('secret')),
+        cipher.final(),
+      ]);
+
+      const open = (data: Buffer) => {
+        const decipher = createAeadDecipher(algorithm, key, nonce);
+        decipher.setAAD(aad);
+        decipher.setAuthTag(cipher.getAuthTag());
+        return Buffer.concat([decipher.update(data), decipher.final()]);
+      };
+
+      expect(open(encrypted).toString()).toBe('secret');
+      encrypted[0] ^= 0x01;
+      expect(() => open(encrypted)).toThrow();
+    },
+  );
+
+  it('should reject unknown ciphers and nonces of the wrong length', () => {
+    const key = randomBytes(32);
+
+    expect(() => cipherId('aes-128-gcm' as Cipher)).toThrow(ValidationError);
+    expect(() =>
+      createAeadCipher(CipherAlgorithm.AES_256_GCM, key, randomBytes(16)),
+    ).toThrow(ValidationError);
+    expect(() =>
+      createAeadDecipher(CipherAlgorithm.AES_256_GCM, key, randomBytes(16)),
+    ).not.toThrow();
+    expect(() =>
+      createAeadDecipher(
+        CipherAlgorithm.CHACHA20_POLY1305,
+        key,
+        randomBytes(16),
+      ),
+    ).toThrow(DecryptionError);
+    expect(() => createAeadDecipher(9, key, randomBytes(12))).toThrow(
+      DecryptionError,
+    );
+  });
+});
@@ -0,0 +1,145 @@
+// test/cli.test.ts
+import { PassThrough, Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import winston from 'winston';
+import {
+  ExitCode,
+  CliIO,
+  exitCodeFor,
+  configFromEnv,
+  putCommand,
+  getCommand,
+  verifyCommand,
+  keygenCommand,
+} from '../src/cli.js';
+import {
+  SecureS3Store,
+  ValidationError,
+  S3Error,
+  DecryptionError,
+  NotFoundError,
+} from '../src/SecureS3Store.js';
+
+jest.mock('@aws-sdk/client-s3');
+
+describe('cli', () => {
+  const logger = winston.createLogger({ silent: true });
+  const mockSend = jest.fn();
+  let objects: Map<string, Buffer>;
+  let parts: Buffer[];
+  let stdout: PassThrough;
+  let io: CliIO;
+
+  const output = () => (stdout.read() || Buffer.alloc(0)).toString();
+
+  beforeEach(() => {
+    objects = new Map();
+    parts = [];
+    mockSend.mockReset();
+    (S3Client as jest.Mock).mockImplementation(() => ({ send: mockSend }));
+    mockSend.mockImplementation(
+      async (command: { input: { Key: string; Body: Buffer } }) => {
+        const { Key, Body } = command.input;
+        if (command instanceof PutObjectCommand) {
+          objects.set(Key, Body);
+          return {};
+        }
+        if (command instanceof GetObjectCommand) {
+          return { Body: Readable.from([objects.get(Key)!]) };
+        }
+        if (command instanceof UploadPartCommand) {
+          parts.push(Body);
+          return { ETag: `etag-${parts.length}` };
+        }
+        if (command instanceof CompleteMultipartUploadCommand) {
+          objects.set(Key, Buffer.concat(parts));
+          return {};
+        }
+        if (command instanceof ListObjectsV2Command) {
+          return { Contents: [...objects.keys()].map((Key) => ({ Key })) };
+        }
+        return { UploadId: 'upload-1' };
+      },
+    );
+    stdout = new PassThrough();
+    io = { stdin: Readable.from([]), stdout, stderr: new PassThrough() };
+  });
+
+  const createStore = () =>
+    new SecureS3Store(
+      configFromEnv({ KEY_V1: 'a'.repeat(64), PRIMARY_KEY: 'v1' }, logger),
+    );
+
+  it('should read keys and S3 settings from the environment', () => {
+    const config = configFromEnv(
+      {
+        KEY_V1: 'a'.repeat(64),
+        KEY_V2: 'b'.repeat(64),
+        KEY_V3: '',
+        PRIMARY_KEY: 'v2',
+        S3_ENDPOINT: 'https://sfo3.digitaloceanspaces.com',
+        DO_SPACES_REGION: 'sfo3',
+        AWS_ACCESS_KEY_ID: 'id',
+        AWS_SECRET_ACCESS_KEY: 'secret',
+      },
+      logger,
+    );
+
+    expect(config.keys).toEqual({ v1: 'a'.repeat(64), v2: 'b'.repeat(64) });
+    expect(config.primaryKey).toBe('v2');
+    expect(config.s3Config).toEqual({
+      endpoint: 'https://sfo3.digitaloceanspaces.com',
+      region: 'sfo3',
+      credentials: { accessKeyId: 'id', secretAccessKey: 'secret' },
+    });
+  });
+
+  it('should map each error class to its own exit code', () => {
+    expect(exitCodeFor(new NotFoundError('x'))).toBe(ExitCode.NOT_FOUND);
+    expect(exitCodeFor(new DecryptionError('x'))).toBe(ExitCode.DECRYPTION);
+    expect(exitCodeFor(new ValidationError('x'))).toBe(ExitCode.VALIDATION);
+    expect(exitCodeFor(new S3Error('x'))).toBe(ExitCode.S3);
+    expect(exitCodeFor(new Error('x'))).toBe(ExitCode.FAILURE);
+  });
+
+  it('should put from stdin and get to stdout', async () => {
+    const store = createStore();
+    io.stdin = Readable.from([Buffer.from('piped data')]);
+
+    await putCommand(store, 'bucket/piped', '-', io);
+    await getCommand(store, 'bucket/piped', undefined, io);
+
+    expect(objects.has('piped.enc')).toBe(true);
+    expect(output()).toBe('piped data');
+  });
+
+  it('should report objects that fail to verify', async () => {
+    const store = createStore();
+    await store.put('bucket/data/good', 'good data');
+    await store.put('bucket/data/bad', 'bad data');
+    const bad = objects.get('data/bad.enc')!;
+    bad[bad.length - 1] ^= 0xff;
+
+    const exitCode = await verifyCommand(store, 'bucket/data/', io);
+
+    expect(exitCode).toBe(ExitCode.DECRYPTION);
+    // Objects are verified concurrently, so lines arrive in any order.
+    expect(output().split('\n').sort()).toEqual([
+      '',
+      'FAILED data/bad: Unable to decrypt data: authentication failed.',
+      'ok data/good',
+    ]);
+  });
+
+  it('should generate a key in .env format', () => {
+    keygenCommand('v3', io);
+    expect(output()).toMatch(/^KEY_V3=[0-9a-f]{64}\n$/);
+  });
+});
@@ -0,0 +1,87 @@
+// test/compression.test.ts
+import zlib from 'zlib';
+import { Readable } from 'stream';
+import {
+  DecompressStream,
+  compress,
+  compressionId,
+} from '../src/compression.js';
+import { CompressionAlgorithm } from '../src/header.js';
+import { DecryptionError, ValidationError } from '../src/errors.js';
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function decompress(
+  data: Buffer,
+  id: number,
+  expectedLength: number,
+  maxLength = 1024 * 1024,
+): Promise<Buffer> {
+  const stream = new DecompressStream(maxLength);
+  stream.start(id, expectedLength);
+  return collect(Readable.from([data]).pipe(stream));
+}
+
+describe('compression', () => {
+  const data = Buffer.from('{"level":"info","msg":"hello"}\n'.repeat(200));
+
+  it.each([CompressionAlgorithm.GZIP, CompressionAlgorithm.BROTLI])(
+    'should round-trip algorithm %i',
+    async (id) => {
+      const compressed = compress(data, id);
+
+      expect(compressed.length).toBeLessThan(data.length / 5);
+      expect(await decompress(compressed, id, data.length)).toEqual(data);
+    },
+  );
+
+  it('should pass data through until started', async () => {
+    const result = await collect(
+      Readable.from([data]).pipe(new DecompressStream(10)),
+    );
+    expect(result).toEqual(data);
+  });
+
+  it('should refuse a recorded size above the limit', () => {
+    const stream = new DecompressStream(100);
+    expect(() => stream.start(CompressionAlgorithm.GZIP, 101)).toThrow(
+      DecryptionError,
+    );
+  });
+
+  it('should stop a decompression bomb at its recorded size', async () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(10 * 1024 * 1024));
+
+    await expect(
+      decompress(bomb, CompressionAlgorithm.GZIP, 1000),
+    ).rejects.toThrow('Decompressed data is larger than its recorded size.');
+  });
+
+  it('should detect data shorter than its recorded size', async () => {
+    const compressed = compress(data, CompressionAlgorithm.GZIP);
+
+    await expect(
+      decompress(compressed, CompressionAlgorithm.GZIP, data.length + 1),
+    ).rejects.toThrow('does not match its recorded size');
+  });
+
+  it('should report corrupt data as a DecryptionError', async () => {
+    await expect(
+      decompress(Buffer.from('not gzip'), CompressionAlgorithm.GZIP, 10),
+    ).rejects.toThrow(DecryptionError);
+  });
+
+  it('should only accept zstd where the runtime supports it', () => {
+    if (typeof zlib.zstdCompressSync === 'function') {
+      expect(compressionId('zstd')).toBe(CompressionAlgorithm.ZSTD);
+    } else {
+      expect(() => compressionId('zstd')).toThrow(ValidationError);
+    }
+  });
+});
@@ -0,0 +1,183 @@
+// test/config.test.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfigFromEnv, loadConfigFromFile } from '../src/config.js';
+import { SchemaValidationError } from '../src/errors.js';
+import { SecureS3Store } from '../src/SecureS3Store.js';
+
+const key1 = 'a'.repeat(64);
+const key2 = 'b'.repeat(64);
+
+async function failure(load: () => unknown): Promise<SchemaValidationError> {
+  try {
+    await load();
+  } catch (err) {
+    expect(err).toBeInstanceOf(SchemaValidationError);
+    return err as SchemaValidationError;
+  }
+  throw new Error('Expected the configuration to be rejected.');
+}
+
+describe('loadConfigFromEnv', () => {
+  it('should discover keys and read the S3 settings', () => {
+    const config = loadConfigFromEnv({
+      KEY_V1: key1,
+      KEY_V2: key2,
+      KEY_V3: '',
+      PRIMARY_KEY: 'v2',
+      NAME_KEY_ID: 'v1',
+      S3_ENDPOINT: 'http://localhost:9000',
+      S3_REGION: 'eu-west-1',
+      S3_FORCE_PATH_STYLE: 'true',
+      AWS_ACCESS_KEY_ID: 'id',
+      AWS_SECRET_ACCESS_KEY: 'secret',
+    });
+
+    expect(config).toEqual({
+      keys: { v1: key1, v2: key2 },
+      primaryKey: 'v2',
+      nameKeyId: 'v1',
+      s3Config: {
+        endpoint: 'http://localhost:9000',
+        region: 'eu-west-1',
+        forcePathStyle: true,
+        credentials: { accessKeyId: 'id', secretAccessKey: 'secret' },
+      },
+    });
+    expect(config.logger).toBeUndefined();
+    expect(() => new SecureS3Store(config)).not.toThrow();
+  });
+
+  it('should default the region and leave credentials to the SDK', () => {
+    const config = loadConfigFromEnv({ KEY_V1: key1, PRIMARY_KEY: 'v1' });
+
+    expect(config.s3Config).toEqual({ region: 'us-east-1' });
+  });
+
+  it('should report every problem by variable name without the values', async () => {
+    const secret = 'not-a-key-but-secret';
+    const error = await failure(() =>
+      loadConfigFromEnv({
+        KEY_V1: key1,
+        KEY_v1: key2,
+        KEY_V2: secret,
+        KEY_V3: key1,
+        NAME_KEY_ID: 'v9',
+        S3_ENDPOINT: 'not a url',
+        S3_FORCE_PATH_STYLE: 'yes',
+        AWS_ACCESS_KEY_ID: 'id',
+        LOG_LEVEL: 'loud',
+      }),
+    );
+
+    expect(error.issues.map((issue) => issue.path[0]).sort()).toEqual([
+      'AWS_SECRET_ACCESS_KEY',
+      'KEY_V2',
+      'KEY_V3',
+      'KEY_v1',
+      'LOG_LEVEL',
+      'NAME_KEY_ID',
+      'PRIMARY_KEY',
+      'S3_ENDPOINT',
+      'S3_FORCE_PATH_STYLE',
+    ]);
+    expect(error.message).toMatch(/^Invalid configuration in the environment:/);
+    expect(error.message).toContain(
+      'KEY_V2: Must be a 64-character hex string.',
+    );
+    expect(error.message).toContain('PRIMARY_KEY: Required.');
+    expect(error.message).toContain('KEY_V3: Is the same key as `v1`.');
+    expect(error.message).not.toContain(secret);
+    expect(error.message).not.toContain(key1);
+    expect(JSON.stringify(error.issues)).not.toContain(secret);
+  });
+
+  it('should reject a primary key that names no key', async () => {
+    const error = await failure(() =>
+      loadConfigFromEnv({ KEY_V1: key1, PRIMARY_KEY: 'v2' }),
+    );
+
+    expect(error.message).toBe(
+      'Invalid configuration in the environment: PRIMARY_KEY: Names the KID `v2`, which has no key.',
+    );
+  });
+
+  it('should require at least one key', async () => {
+    const error = await failure(() => loadConfigFromEnv({ PRIMARY_KEY: 'v1' }));
+
+    expect(error.message).toBe(
+      'Invalid configuration in the environment: KEY_<KID>: At least one key is required.; PRIMARY_KEY: Names the KID `v1`, which has no key.',
+    );
+  });
+});
+
+describe('loadConfigFromFile', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+    file = path.join(dir, 'store.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (contents: unknown) =>
+    fs.writeFileSync(file, JSON.stringify(contents));
+
+  it('should read the store settings', async () => {
+    write({
+      keys: { v1: key1 },
+      primaryKey: 'v1',
+      s3Config: { region: 'eu-west-1' },
+      compression: 'gzip',
+      retry: { maxAttempts: 5 },
+      cache: { ttl: 0 },
+    });
+
+    const config = await loadConfigFromFile(file);
+
+    expect(config).toEqual({
+      keys: { v1: key1 },
+      primaryKey: 'v1',
+      s3Config: { region: 'eu-west-1' },
+      compression: 'gzip',
+      retry: { maxAttempts: 5 },
+      cache: { ttl: 0 },
+    });
+  });
+
+  it('should report every problem by its path in the file', async () => {
+    write({
+      keys: { v1: key1, v2: 42 },
+      primaryKey: 'v1',
+      partSize: -1,
+      compresion: 'gzip',
+      s3Config: { credentials: { accessKeyId: 'id' } },
+    });
+
+    const error = await failure(() => loadConfigFromFile(file));
+
+    expect(error.issues.map((issue) => issue.path.join('.')).sort()).toEqual([
+      '',
+      'keys.v2',
+      'partSize',
+      's3Config.credentials.secretAccessKey',
+    ]);
+    expect(error.message).toContain(`Invalid configuration in ${file}:`);
+    expect(error.message).toContain('(root): Unrecognized key: "compresion"');
+  });
+
+  it('should not quote a file that is not JSON', async () => {
+    fs.writeFileSync(file, `{ "keys": { "v1": "${key1}" }, }`);
+
+    const error = await failure(() => loadConfigFromFile(file));
+
+    expect(error.message).toBe(
+      `The configuration file ${file} is not valid JSON.`,
+    );
+  });
+});
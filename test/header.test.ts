@@ -0,0 +1,103 @@
+// test/header.test.ts
+import {
+  encodeHeader,
+  parseHeader,
+  CipherAlgorithm,
+  CompressionAlgorithm,
+  HeaderFlags,
+  MAGIC,
+  HEADER_VERSION,
+} from '../src/header.js';
+import { DecryptionError, ValidationError } from '../src/errors.js';
+
+describe('object header', () => {
+  const fields = {
+    algorithm: CipherAlgorithm.AES_256_GCM,
+    flags:
+      HeaderFlags.CHUNKED |
+      HeaderFlags.ENVELOPE |
+      HeaderFlags.USER_METADATA |
+      HeaderFlags.COMPRESSED |
+      HeaderFlags.ENCRYPTED_NAME,
+    kid: 'kek-1',
+    nonce: Buffer.alloc(7, 1),
+    wrappedKey: Buffer.alloc(60, 2),
+    segmentSize: 65536,
+    userMetadata: Buffer.alloc(40, 4),
+    compression: CompressionAlgorithm.GZIP,
+    uncompressedLength: 2 ** 40,
+    nameKid: 'names',
+    metadata: { origin: 'test' },
+  };
+
+  it('should round-trip every field', () => {
+    const encoded = encodeHeader(fields);
+    const body = Buffer.from('body');
+
+    const parsed = parseHeader(Buffer.concat([encoded, body]))!;
+
+    expect(parsed.header).toEqual({ version: HEADER_VERSION, ...fields });
+    expect(parsed.length).toBe(encoded.length);
+    expect(parsed.aad).toEqual(encoded);
+  });
+
+  it('should ask for more data while the header is incomplete', () => {
+    const encoded = encodeHeader(fields);
+    for (let length = 0; length < encoded.length; length++) {
+      expect(parseHeader(encoded.subarray(0, length))).toBeUndefined();
+    }
+  });
+
+  it('should parse the legacy layout', () => {
+    const iv = Buffer.alloc(16, 3);
+    const legacy = Buffer.concat([Buffer.from([2]), Buffer.from('v1'), iv]);
+
+    const parsed = parseHeader(Buffer.concat([legacy, Buffer.alloc(20)]))!;
+
+    expect(parsed.header).toEqual({
+      version: 0,
+      algorithm: CipherAlgorithm.AES_256_GCM,
+      flags: 0,
+      kid: 'v1',
+      nonce: iv,
+    });
+    expect(parsed.length).toBe(legacy.length);
+    expect(parsed.aad).toBeUndefined();
+  });
+
+  it('should parse the version 1 stream layout', () => {
+    const segmentSize = Buffer.alloc(4);
+    segmentSize.writeUInt32BE(1024);
+    const data = Buffer.concat([
+      MAGIC,
+      Buffer.from([1, 2]),
+      Buffer.from('v1'),
+      Buffer.alloc(7, 4),
+      segmentSize,
+    ]);
+
+    const { header } = parseHeader(data)!;
+
+    expect(header).toMatchObject({
+      version: 1,
+      flags: HeaderFlags.CHUNKED,
+      kid: 'v1',
+      segmentSize: 1024,
+    });
+  });
+
+  it.each([
+    ['an unknown version', [...MAGIC, 9]],
+    ['bad magic bytes', [0, 1, 2, 3, HEADER_VERSION]],
+    ['an unknown algorithm', [...MAGIC, HEADER_VERSION, 99, 0]],
+    ['unknown flags', [...MAGIC, HEADER_VERSION, 1, 0x80]],
+  ])('should throw a DecryptionError for %s', (_name, bytes) => {
+    expect(() => parseHeader(Buffer.from(bytes))).toThrow(DecryptionError);
+  });
+
+  it('should reject a KID that does not fit', () => {
+    expect(() => encodeHeader({ ...fields, kid: 'k'.repeat(256) })).toThrow(
+      ValidationError,
+    );
+  });
+});
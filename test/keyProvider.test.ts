@@ -0,0 +1,106 @@
+// test/keyProvider.test.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  StaticKeyProvider,
+  FileKeyProvider,
+  RemoteKeyProvider,
+} from '../src/keyProvider.js';
+import { ValidationError, DecryptionError } from '../src/errors.js';
+
+describe('StaticKeyProvider', () => {
+  const keys = { k1: 'a'.repeat(64), k2: 'b'.repeat(64) };
+
+  it('should wrap and unwrap a data key', async () => {
+    const provider = new StaticKeyProvider(keys, 'k2');
+    const { keyId, dataKey, wrappedKey } = await provider.generateDataKey();
+
+    expect(keyId).toBe('k2');
+    expect(dataKey).toHaveLength(32);
+    expect(wrappedKey.includes(dataKey)).toBe(false);
+    expect(await provider.unwrapDataKey(keyId, wrappedKey)).toEqual(dataKey);
+  });
+
+  it('should refuse to unwrap with the wrong or an unknown key', async () => {
+    const provider = new StaticKeyProvider(keys, 'k2');
+    const { wrappedKey } = await provider.generateDataKey();
+
+    await expect(provider.unwrapDataKey('k1', wrappedKey)).rejects.toThrow(
+      DecryptionError,
+    );
+    await expect(provider.unwrapDataKey('k9', wrappedKey)).rejects.toThrow(
+      'No key-encryption key found for: k9',
+    );
+  });
+
+  it('should validate its keys', () => {
+    expect(() => new StaticKeyProvider(keys, 'k3')).toThrow(ValidationError);
+    expect(() => new StaticKeyProvider({ k1: 'abc' }, 'k1')).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe('FileKeyProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keyring-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load keys from a keyring file', async () => {
+    const file = path.join(dir, 'keyring.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ primaryKeyId: 'k1', keys: { k1: 'c'.repeat(64) } }),
+    );
+
+    const provider = new FileKeyProvider(file);
+    const { keyId, dataKey, wrappedKey } = await provider.generateDataKey();
+    expect(await provider.unwrapDataKey(keyId, wrappedKey)).toEqual(dataKey);
+  });
+
+  it('should throw a ValidationError for a missing file', () => {
+    expect(() => new FileKeyProvider(path.join(dir, 'missing.json'))).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe('RemoteKeyProvider', () => {
+  it('should wrap data keys with the remote service', async () => {
+    const service = {
+      encrypt: jest.fn(async (_keyId: string, plaintext: Buffer) =>
+        Buffer.from(plaintext).reverse(),
+      ),
+      decrypt: jest.fn(async (_keyId: string, ciphertext: Buffer) =>
+        Buffer.from(ciphertext).reverse(),
+      ),
+    };
+    const provider = new RemoteKeyProvider('alias/store', service);
+
+    const { keyId, dataKey, wrappedKey } = await provider.generateDataKey();
+    expect(service.encrypt).toHaveBeenCalledWith('alias/store', dataKey);
+    expect(await provider.unwrapDataKey(keyId, wrappedKey)).toEqual(dataKey);
+  });
+
+  it('should report remote failures as a DecryptionError', async () => {
+    const provider = new RemoteKeyProvider('alias/store', {
+      encrypt: async () => Buffer.alloc(0),
+      decrypt: async () => {
+        throw new Error('AccessDenied');
+      },
+    });
+
+    await expect(
+      provider.unwrapDataKey('alias/store', Buffer.from('x')),
+    ).rejects.toThrow(
+      'Unable to unwrap data key with alias/store: AccessDenied',
+    );
+  });
+});
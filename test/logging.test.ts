@@ -0,0 +1,165 @@
+// test/logging.test.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import {
+  Redactor,
+  createConsoleLogger,
+  createFileLogger,
+  defaultLogger,
+  redactLogger,
+} from '../src/logging.js';
+
+describe('createConsoleLogger', () => {
+  let errorSpy: jest.SpyInstance;
+  let debugSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    debugSpy = jest.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write errors only by default', () => {
+    const logger = createConsoleLogger();
+
+    logger.debug('Checking');
+    logger.error('Failed', { error: new TypeError('bad input') });
+
+    expect(debugSpy).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(errorSpy.mock.calls[0][0]).toMatch(
+      /error: Failed {"error":{"name":"TypeError","message":"bad input"}}$/,
+    );
+  });
+
+  it('should write the levels up to the one configured', () => {
+    createConsoleLogger({ level: 'debug' }).debug('Checking');
+
+    expect(debugSpy).toHaveBeenCalledWith(
+      expect.stringMatching(/debug: Checking$/),
+    );
+  });
+
+  it('should write to a stream when given one', () => {
+    const stream = new PassThrough();
+    createConsoleLogger({ level: 'info', stream }).info('Started');
+
+    expect(String(stream.read())).toMatch(/info: Started\n$/);
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+
+  it('should share the default logger', () => {
+    expect(defaultLogger()).toBe(defaultLogger());
+  });
+});
+
+describe('createFileLogger', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'logs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create nothing until the first message', async () => {
+    const logDir = path.join(dir, 'logs');
+    const logger = createFileLogger({ logDir, filename: 'store-%DATE%.log' });
+
+    expect(fs.existsSync(logDir)).toBe(false);
+
+    logger.warn('Disk almost full');
+    // Wait for the write, so that the directory is not removed while the
+    // file is being opened.
+    const logged = () =>
+      fs.existsSync(logDir) &&
+      fs
+        .readdirSync(logDir)
+        .filter((name) => name.startsWith('store-'))
+        .some((name) =>
+          fs
+            .readFileSync(path.join(logDir, name), 'utf8')
+            .includes('Disk almost full'),
+        );
+    for (let i = 0; i < 100 && !logged(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    expect(logged()).toBe(true);
+  });
+});
+
+describe('Redactor', () => {
+  it('should leave everything alone by default', () => {
+    const redactor = new Redactor();
+    const meta = { error: new Error('for bucket/a') };
+
+    expect(redactor.path('bucket/a')).toBe('bucket/a');
+    expect(redactor.meta(meta)).toEqual({
+      error: { name: 'Error', message: 'for bucket/a' },
+    });
+  });
+
+  it('should mask keys and drop error messages when redacting paths', () => {
+    const redactor = new Redactor({ paths: true });
+    const error = Object.assign(new Error('No object at bucket/a'), {
+      name: 'NotFoundError',
+      statusCode: 404,
+    });
+
+    expect(redactor.path('bucket/users/42')).toBe('bucket/[REDACTED]');
+    expect(redactor.path('bucket')).toBe('bucket');
+    expect(redactor.meta({ error })).toEqual({
+      error: { name: 'NotFoundError', statusCode: 404 },
+    });
+  });
+
+  it('should mask fields at any depth and patterns in strings', () => {
+    const redactor = new Redactor({
+      fields: ['token'],
+      patterns: [/\d{3}-\d{2}-\d{4}/],
+      replacement: '***',
+    });
+
+    expect(
+      redactor.meta({
+        request: { token: 'abc', notes: ['SSN 123-45-6789 and 987-65-4321'] },
+        count: 2,
+      }),
+    ).toEqual({
+      request: { token: '***', notes: ['SSN *** and ***'] },
+      count: 2,
+    });
+    expect(redactor.text('id 123-45-6789')).toBe('id ***');
+  });
+});
+
+describe('redactLogger', () => {
+  it('should mask messages and metadata before they are logged', () => {
+    const logger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    const redacted = redactLogger(
+      logger,
+      new Redactor({ fields: ['secret'], patterns: [/alice/] }),
+    );
+
+    redacted.warn('Retrying for alice', { secret: 'x', attempt: 2 });
+    redacted.info('Done');
+
+    expect(logger.warn).toHaveBeenCalledWith('Retrying for [REDACTED]', {
+      secret: '[REDACTED]',
+      attempt: 2,
+    });
+    expect(logger.info).toHaveBeenCalledWith('Done', undefined);
+  });
+});
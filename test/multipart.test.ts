@@ -0,0 +1,149 @@
+// test/multipart.test.ts
+import { Readable } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import winston from 'winston';
+import { multipartUpload, UploadProgress } from '../src/multipart.js';
+
+jest.mock('@aws-sdk/client-s3');
+
+describe('multipartUpload', () => {
+  const logger = winston.createLogger({ silent: true });
+  const send = jest.fn();
+  const client = { send } as unknown as S3Client;
+
+  beforeEach(() => {
+    send.mockReset();
+  });
+
+  const command = (call: number) => send.mock.calls[call][0].input;
+
+  it('should upload parts with bounded concurrency and complete in order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    send.mockImplementation(async (cmd) => {
+      if (cmd.input.PartNumber) {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        // Finish later parts first to exercise sorting on completion.
+        await new Promise((r) => setTimeout(r, 10 - cmd.input.PartNumber));
+        inFlight--;
+        return { ETag: `etag-${cmd.input.PartNumber}` };
+      }
+      return { UploadId: 'upload-1' };
+    });
+    const progress: UploadProgress[] = [];
+
+    await multipartUpload(client, 'bucket', 'key.enc', Buffer.alloc(25), {
+      partSize: 4,
+      concurrency: 3,
+      total: 25,
+      onProgress: (p) => progress.push(p),
+      logger,
+    });
+
+    expect(maxInFlight).toBe(3);
+    const complete = command(send.mock.calls.length - 1);
+    const partNumbers = complete.MultipartUpload.Parts.map(
+      (p: { PartNumber: number }) => p.PartNumber,
+    );
+    expect(partNumbers).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(progress).toHaveLength(7);
+    expect(progress[6]).toMatchObject({ loaded: 25, total: 25 });
+  });
+
+  it('should split a stream into fixed-size parts', async () => {
+    const parts: Buffer[] = [];
+    send.mockImplementation(async (cmd) => {
+      if (cmd.input.PartNumber) {
+        parts.push(cmd.input.Body);
+      }
+      return { UploadId: 'upload-1' };
+    });
+
+    const source = Readable.from([Buffer.alloc(3, 1), Buffer.alloc(7, 2)]);
+    await multipartUpload(client, 'bucket', 'key.enc', source, {
+      partSize: 4,
+      concurrency: 1,
+      logger,
+    });
+
+    expect(parts.map((p) => p.length)).toEqual([4, 4, 2]);
+    expect(Buffer.concat(parts)).toEqual(
+      Buffer.concat([Buffer.alloc(3, 1), Buffer.alloc(7, 2)]),
+    );
+  });
+
+  it('should abort the upload and rethrow when a part fails', async () => {
+    send.mockImplementation(async (cmd) => {
+      if (cmd.input.PartNumber === 2) {
+        throw new Error('Part 2 failed');
+      }
+      return { UploadId: 'upload-1' };
+    });
+
+    await expect(
+      multipartUpload(client, 'bucket', 'key.enc', Buffer.alloc(12), {
+        partSize: 4,
+        concurrency: 2,
+        logger,
+      }),
+    ).rejects.toThrow('Part 2 failed');
+
+    const last = command(send.mock.calls.length - 1);
+    expect(last).toEqual({
+      Bucket: 'bucket',
+      Key: 'key.enc',
+      UploadId: 'upload-1',
+    });
+    expect(send.mock.calls.some((c) => c[0].input.MultipartUpload)).toBe(false);
+  });
+
+  it('should retry a part that fails with a retryable error', async () => {
+    let failed = false;
+    send.mockImplementation(async (cmd) => {
+      if (cmd.input.PartNumber === 2 && !failed) {
+        failed = true;
+        throw Object.assign(new Error('Service Unavailable'), {
+          $metadata: { httpStatusCode: 503 },
+        });
+      }
+      if (cmd.input.PartNumber) {
+        return { ETag: `etag-${cmd.input.PartNumber}` };
+      }
+      return { UploadId: 'upload-1' };
+    });
+
+    await multipartUpload(client, 'bucket', 'key.enc', Buffer.alloc(12), {
+      partSize: 4,
+      concurrency: 1,
+      logger,
+      retry: { policy: { baseDelay: 0 } },
+    });
+
+    const parts = send.mock.calls.map((c) => c[0].input.PartNumber);
+    expect(parts.filter((part) => part === 2)).toHaveLength(2);
+    expect(command(send.mock.calls.length - 1).MultipartUpload.Parts).toEqual([
+      { ETag: 'etag-1', PartNumber: 1 },
+      { ETag: 'etag-2', PartNumber: 2 },
+      { ETag: 'etag-3', PartNumber: 3 },
+    ]);
+  });
+
+  it('should abort the upload when the source stream fails', async () => {
+    send.mockResolvedValue({ UploadId: 'upload-1' });
+    const source = new Readable({
+      read() {
+        this.destroy(new Error('Source failed'));
+      },
+    });
+
+    await expect(
+      multipartUpload(client, 'bucket', 'key.enc', source, {
+        partSize: 4,
+        concurrency: 2,
+        logger,
+      }),
+    ).rejects.toThrow('Source failed');
+    expect(command(send.mock.calls.length - 1).UploadId).toBe('upload-1');
+  });
+});
@@ -0,0 +1,49 @@
+// test/names.test.ts
+import { NameCipher } from '../src/names.js';
+import { DecryptionError } from '../src/errors.js';
+
+describe('NameCipher', () => {
+  const names = new NameCipher('names', Buffer.alloc(32, 7));
+
+  it('should encrypt each segment deterministically and decrypt it back', () => {
+    const stored = names.encrypt('bucket', 'reports/2024/q3.csv');
+
+    expect(stored.split('/')).toHaveLength(3);
+    expect(stored).not.toContain('reports');
+    expect(stored).not.toContain('q3');
+    expect(names.encrypt('bucket', 'reports/2024/q3.csv')).toBe(stored);
+    expect(names.decrypt('bucket', stored)).toBe('reports/2024/q3.csv');
+  });
+
+  it('should keep folders as prefixes of the keys in them', () => {
+    const folder = names.encrypt('bucket', 'reports/');
+    const key = names.encrypt('bucket', 'reports/q3.csv');
+
+    expect(folder.endsWith('/')).toBe(true);
+    expect(key.startsWith(folder)).toBe(true);
+    expect(names.decrypt('bucket', folder)).toBe('reports/');
+    expect(names.encrypt('bucket', '')).toBe('');
+  });
+
+  it('should encrypt the same name differently per bucket and folder', () => {
+    const stored = names.encrypt('bucket', 'a/x');
+    const [, x] = stored.split('/');
+
+    expect(names.encrypt('bucket', 'b/x').split('/')[1]).not.toBe(x);
+    expect(names.encrypt('other', 'a/x')).not.toBe(stored);
+    expect(() => names.decrypt('other', stored)).toThrow(DecryptionError);
+    expect(() =>
+      names.decrypt('bucket', `${names.encrypt('bucket', 'b/')}${x}`),
+    ).toThrow(DecryptionError);
+  });
+
+  it('should reject names it did not encrypt', () => {
+    const stored = names.encrypt('bucket', 'secret.txt');
+    const other = new NameCipher('other', Buffer.alloc(32, 8));
+    const tampered = `${stored.slice(0, -1)}${stored.endsWith('A') ? 'B' : 'A'}`;
+
+    expect(() => other.decrypt('bucket', stored)).toThrow(DecryptionError);
+    expect(() => names.decrypt('bucket', tampered)).toThrow(DecryptionError);
+    expect(() => names.decrypt('bucket', 'plain.txt')).toThrow(DecryptionError);
+  });
+});
@@ -0,0 +1,128 @@
+// test/retry.test.ts
+import { isRetryableError, backoffDelay, withRetry } from '../src/retry.js';
+import { S3Error } from '../src/errors.js';
+
+describe('retry', () => {
+  // An error shaped like the AWS SDK's service exceptions.
+  const serviceError = (name: string, httpStatusCode: number) =>
+    Object.assign(new Error(name), {
+      name,
+      $fault: httpStatusCode >= 500 ? 'server' : 'client',
+      $metadata: { httpStatusCode, requestId: 'req-1' },
+    });
+
+  const noDelay = { baseDelay: 0 };
+
+  it('should classify throttling, 5xx and network errors as retryable', () => {
+    expect(isRetryableError(serviceError('SlowDown', 503))).toBe(true);
+    expect(isRetryableError(serviceError('InternalError', 500))).toBe(true);
+    expect(isRetryableError(serviceError('Whatever', 502))).toBe(true);
+    expect(
+      isRetryableError(
+        Object.assign(new Error('reset'), { code: 'ECONNRESET' }),
+      ),
+    ).toBe(true);
+    expect(isRetryableError(serviceError('NoSuchKey', 404))).toBe(false);
+    expect(isRetryableError(serviceError('AccessDenied', 403))).toBe(false);
+    expect(isRetryableError(new Error('bug'))).toBe(false);
+  });
+
+  it('should grow the delay bound exponentially up to the maximum', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    const policy = { baseDelay: 100, maxDelay: 1000 };
+    expect(Math.round(backoffDelay(1, policy))).toBe(100);
+    expect(Math.round(backoffDelay(3, policy))).toBe(400);
+    expect(Math.round(backoffDelay(10, policy))).toBe(1000);
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(3, policy)).toBe(0);
+    jest.restoreAllMocks();
+  });
+
+  it('should retry retryable errors until an attempt succeeds', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(serviceError('SlowDown', 503))
+      .mockRejectedValueOnce(serviceError('SlowDown', 503))
+      .mockResolvedValueOnce('done');
+
+    await expect(withRetry('GetObject', fn, { policy: noDelay })).resolves.toBe(
+      'done',
+    );
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after maxAttempts and record the attempts', async () => {
+    const fn = jest.fn().mockRejectedValue(serviceError('SlowDown', 503));
+
+    const error = await withRetry('GetObject', fn, {
+      policy: { ...noDelay, maxAttempts: 4 },
+    }).catch((err) => err);
+
+    expect(fn).toHaveBeenCalledTimes(4);
+    expect(new S3Error('S3 GetObject failed', error)).toMatchObject({
+      statusCode: 503,
+      code: 'SlowDown',
+      requestId: 'req-1',
+      attempts: 4,
+    });
+  });
+
+  it('should not retry other errors', async () => {
+    const fn = jest.fn().mockRejectedValue(serviceError('AccessDenied', 403));
+
+    await expect(
+      withRetry('GetObject', fn, { policy: noDelay }),
+    ).rejects.toThrow('AccessDenied');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort an attempt that exceeds the timeout and retry it', async () => {
+    let calls = 0;
+    const fn = (signal: AbortSignal) =>
+      new Promise((resolve, reject) => {
+        if (++calls === 2) {
+          resolve('done');
+        }
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+
+    await expect(
+      withRetry('GetObject', fn, { policy: noDelay, timeout: 10 }),
+    ).resolves.toBe('done');
+    expect(calls).toBe(2);
+  });
+
+  it('should report a TimeoutError when every attempt times out', async () => {
+    const fn = (signal: AbortSignal) =>
+      new Promise((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+
+    const error = await withRetry('GetObject', fn, {
+      policy: { ...noDelay, maxAttempts: 2 },
+      timeout: 10,
+    }).catch((err) => err);
+
+    expect(new S3Error('S3 GetObject failed', error)).toMatchObject({
+      code: 'TimeoutError',
+      attempts: 2,
+    });
+  });
+
+  it('should stop retrying when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw serviceError('SlowDown', 503);
+    });
+
+    const error = await withRetry('GetObject', fn, {
+      policy: noDelay,
+      signal: controller.signal,
+    }).catch((err) => err);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(error).toMatchObject({ name: 'AbortError' });
+    expect(new S3Error('S3 GetObject failed', error).code).toBe('AbortError');
+  });
+});
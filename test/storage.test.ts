@@ -0,0 +1,258 @@
+// test/storage.test.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  StorageBackend,
+  MemoryBackend,
+  FileSystemBackend,
+} from '../src/storage.js';
+import {
+  SecureS3Store,
+  ValidationError,
+  NotFoundError,
+  PreconditionFailedError,
+  NotModifiedError,
+} from '../src/SecureS3Store.js';
+
+async function read(body: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe.each([
+  ['MemoryBackend', () => new MemoryBackend()],
+  ['FileSystemBackend', (dir: string) => new FileSystemBackend(dir)],
+])('%s', (_name, createBackend) => {
+  let dir: string;
+  let backend: StorageBackend;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backend-'));
+    backend = createBackend(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should put, get, head and delete an object', async () => {
+    await backend.put('bucket', 'a/b.enc', Buffer.from('hello'));
+
+    const object = await backend.get('bucket', 'a/b.enc');
+    expect(await read(object.body)).toBe('hello');
+    expect(object.size).toBe(5);
+    const info = await backend.head('bucket', 'a/b.enc');
+    expect(info).toMatchObject({ size: 5, etag: object.etag });
+    expect(info.lastModified?.getTime()).toEqual(expect.any(Number));
+
+    await backend.delete('bucket', 'a/b.enc');
+    await expect(backend.head('bucket', 'a/b.enc')).rejects.toThrow(
+      NotFoundError,
+    );
+    await expect(backend.delete('bucket', 'a/b.enc')).resolves.toBeUndefined();
+  });
+
+  it('should accept a stream body and read a range', async () => {
+    await backend.put(
+      'bucket',
+      'key',
+      Readable.from([Buffer.from('0123456789')]),
+    );
+
+    const object = await backend.get('bucket', 'key', {
+      range: { start: 2, end: 4 },
+    });
+    expect(await read(object.body)).toBe('234');
+    expect(object.size).toBe(10);
+  });
+
+  it('should throw a NotFoundError for a missing object', async () => {
+    await expect(backend.get('bucket', 'missing')).rejects.toThrow(
+      NotFoundError,
+    );
+    await expect(
+      backend.copy(
+        { bucket: 'bucket', key: 'missing' },
+        { bucket: 'bucket', key: 'copy' },
+      ),
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should list keys and folders a page at a time', async () => {
+    for (const key of ['a/1', 'a/2', 'b', 'c/d/e', 'd']) {
+      await backend.put('bucket', key, Buffer.from(key));
+    }
+
+    const first = await backend.list('bucket', {
+      prefix: '',
+      delimiter: '/',
+      pageSize: 2,
+    });
+    expect(first.prefixes).toEqual(['a/']);
+    expect(first.objects.map((obj) => obj.key)).toEqual(['b']);
+    const second = await backend.list('bucket', {
+      prefix: '',
+      delimiter: '/',
+      pageSize: 2,
+      cursor: first.cursor,
+    });
+    expect(second.prefixes).toEqual(['c/']);
+    expect(second.objects.map((obj) => obj.key)).toEqual(['d']);
+    expect(second.cursor).toBeUndefined();
+
+    const all = await backend.list('bucket', {
+      prefix: 'a/',
+      startAfter: 'a/1',
+    });
+    expect(all.objects.map((obj) => obj.key)).toEqual(['a/2']);
+  });
+
+  it('should honour ifNoneMatch and ifMatch', async () => {
+    await backend.put('bucket', 'key', Buffer.from('one'), {
+      ifNoneMatch: '*',
+    });
+    await expect(
+      backend.put('bucket', 'key', Buffer.from('two'), { ifNoneMatch: '*' }),
+    ).rejects.toThrow(PreconditionFailedError);
+
+    const { etag } = await backend.head('bucket', 'key');
+    await backend.put('bucket', 'key', Buffer.from('three'), { ifMatch: etag });
+    await expect(
+      backend.put('bucket', 'key', Buffer.from('four'), { ifMatch: etag }),
+    ).rejects.toThrow(PreconditionFailedError);
+    await expect(
+      backend.put('bucket', 'missing', Buffer.from('x'), { ifMatch: etag }),
+    ).rejects.toThrow(PreconditionFailedError);
+    expect(await read((await backend.get('bucket', 'key')).body)).toBe('three');
+  });
+
+  it('should read an object only if it changed with ifNoneMatch', async () => {
+    await backend.put('bucket', 'key', Buffer.from('one'));
+    const { etag } = await backend.head('bucket', 'key');
+    await expect(
+      backend.get('bucket', 'key', { ifNoneMatch: etag }),
+    ).rejects.toThrow(NotModifiedError);
+
+    await backend.put('bucket', 'key', Buffer.from('two'));
+    const object = await backend.get('bucket', 'key', { ifNoneMatch: etag });
+    expect(await read(object.body)).toBe('two');
+  });
+
+  it('should copy objects across buckets and delete many', async () => {
+    await backend.put('bucket', 'x', Buffer.from('data'));
+    await backend.copy(
+      { bucket: 'bucket', key: 'x' },
+      { bucket: 'other', key: 'y/z' },
+    );
+    expect(await read((await backend.get('other', 'y/z')).body)).toBe('data');
+
+    const failures = await backend.deleteMany('bucket', ['x', 'missing']);
+    expect(failures.size).toBe(0);
+    await expect(backend.head('bucket', 'x')).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('FileSystemBackend', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backend-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store objects as files under the root', async () => {
+    const backend = new FileSystemBackend(dir);
+    await backend.put('bucket', 'a/b.enc', Buffer.from('hello'));
+
+    expect(
+      fs.readFileSync(path.join(dir, 'bucket', 'a', 'b.enc'), 'utf8'),
+    ).toBe('hello');
+  });
+
+  it('should refuse keys that escape the bucket', async () => {
+    const backend = new FileSystemBackend(dir);
+
+    await expect(
+      backend.put('bucket', '../outside', Buffer.from('x')),
+    ).rejects.toThrow(ValidationError);
+    await expect(backend.get('..', 'key')).rejects.toThrow(ValidationError);
+    await expect(backend.get('bucket', 'a//b')).rejects.toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe('SecureS3Store with a backend', () => {
+  const keys = { v1: 'a'.repeat(64) };
+
+  it('should encrypt objects into the backend and read them back', async () => {
+    const backend = new MemoryBackend();
+    const store = new SecureS3Store({ keys, primaryKey: 'v1', backend });
+
+    await store.put('bucket/docs/a.txt', 'secret', {
+      contentType: 'text/plain',
+    });
+    await store.putStream(
+      'bucket/docs/b.bin',
+      Readable.from([Buffer.alloc(100_000, 1)]),
+    );
+
+    const raw = await read(
+      (await backend.get('bucket', 'docs/a.txt.enc')).body,
+    );
+    expect(raw).not.toContain('secret');
+    expect((await store.get('bucket/docs/a.txt')).toString()).toBe('secret');
+    expect(await store.head('bucket/docs/a.txt')).toMatchObject({
+      contentType: 'text/plain',
+    });
+    expect(await store.list('bucket/docs/')).toEqual([
+      'docs/a.txt',
+      'docs/b.bin',
+    ]);
+
+    await store.move('bucket/docs/a.txt', 'bucket/archive/a.txt');
+    expect(await store.exists('bucket/docs/a.txt')).toBe(false);
+    expect((await store.get('bucket/archive/a.txt')).toString()).toBe('secret');
+
+    const report = await store.deletePrefix('bucket/docs/');
+    expect(report.deleted).toEqual(['docs/b.bin']);
+    await expect(store.get('bucket/docs/b.bin')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should compare and swap with the ETag from get', async () => {
+    const store = new SecureS3Store({
+      keys,
+      primaryKey: 'v1',
+      backend: new MemoryBackend(),
+    });
+    await store.put('bucket/config.json', '{"n":1}', { ifNoneMatch: '*' });
+
+    const first = await store.get('bucket/config.json', { withETag: true });
+    const second = await store.get('bucket/config.json', { withETag: true });
+    expect(first.etag).toBeDefined();
+    await store.put('bucket/config.json', '{"n":2}', { ifMatch: first.etag });
+    await expect(
+      store.put('bucket/config.json', '{"n":3}', { ifMatch: second.etag }),
+    ).rejects.toThrow(PreconditionFailedError);
+    await expect(
+      store.putStream('bucket/config.json', Readable.from(['{}']), {
+        ifNoneMatch: '*',
+      }),
+    ).rejects.toThrow('Precondition failed for path: bucket/config.json');
+    expect((await store.get('bucket/config.json')).toString()).toBe('{"n":2}');
+  });
+
+  it('should require either s3Config or a backend', () => {
+    expect(() => new SecureS3Store({ keys, primaryKey: 'v1' })).toThrow(
+      ValidationError,
+    );
+  });
+});
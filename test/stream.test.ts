@@ -0,0 +1,262 @@
+// test/stream.test.ts
+import { Readable } from 'stream';
+import { createCipheriv, randomBytes } from 'crypto';
+import {
+  EncryptStream,
+  DecryptStream,
+  encryptPayload,
+  decryptedLength,
+} from '../src/stream.js';
+import {
+  parseHeader,
+  encodeHeader,
+  CipherAlgorithm,
+  HeaderFlags,
+} from '../src/header.js';
+import { DecryptionError, ValidationError } from '../src/errors.js';
+
+const key = Buffer.alloc(32, 7);
+const resolveKey = (kid: string) => (kid === 'v1' ? key : undefined);
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function encrypt(data: Buffer, segmentSize: number): Promise<Buffer> {
+  return collect(
+    Readable.from([data]).pipe(
+      new EncryptStream({ kid: 'v1', key }, { segmentSize }),
+    ),
+  );
+}
+
+function decrypt(payload: Buffer): Promise<Buffer> {
+  return collect(Readable.from([payload]).pipe(new DecryptStream(resolveKey)));
+}
+
+describe('stream encryption', () => {
+  it.each([0, 1, 16, 17, 100])(
+    'should round-trip %i bytes across segments',
+    async (length) => {
+      const data = randomBytes(length);
+      const encryptor = new EncryptStream(
+        { kid: 'v1', key },
+        { segmentSize: 16 },
+      );
+      const payload = await collect(Readable.from([data]).pipe(encryptor));
+
+      expect(parseHeader(payload)!.header.flags).toBe(HeaderFlags.CHUNKED);
+      expect(payload.length).toBe(encryptor.encryptedLength(length));
+      expect(decryptedLength(parseHeader(payload)!, payload.length)).toBe(
+        length,
+      );
+      expect(await decrypt(payload)).toEqual(data);
+    },
+  );
+
+  it('should decrypt input that arrives one byte at a time', async () => {
+    const data = randomBytes(50);
+    const payload = await encrypt(data, 16);
+    const bytes = [...payload].map((b) => Buffer.from([b]));
+
+    const result = await collect(
+      Readable.from(bytes).pipe(new DecryptStream(resolveKey)),
+    );
+    expect(result).toEqual(data);
+  });
+
+  it('should detect a truncated payload', async () => {
+    const payload = await encrypt(randomBytes(64), 16);
+    // Drop the final segment so the last remaining one is not marked final.
+    const truncated = payload.subarray(0, payload.length - 32);
+
+    await expect(decrypt(truncated)).rejects.toThrow(DecryptionError);
+  });
+
+  it('should detect reordered segments', async () => {
+    const payload = await encrypt(randomBytes(64), 16);
+    const headerLength = payload.length - 4 * 32;
+    const header = payload.subarray(0, headerLength);
+    const segment = (i: number) =>
+      payload.subarray(headerLength + i * 32, headerLength + (i + 1) * 32);
+
+    const reordered = Buffer.concat([
+      header,
+      segment(1),
+      segment(0),
+      segment(2),
+      segment(3),
+    ]);
+    await expect(decrypt(reordered)).rejects.toThrow(DecryptionError);
+  });
+
+  it('should throw a DecryptionError for an unknown KID', async () => {
+    const payload = await collect(
+      Readable.from([Buffer.from('data')]).pipe(
+        new EncryptStream({ kid: 'v2', key }),
+      ),
+    );
+    await expect(decrypt(payload)).rejects.toThrow(
+      'No secret key found for KID: v2',
+    );
+  });
+
+  it('should unwrap the data key of an envelope payload', async () => {
+    const dataKey = randomBytes(32);
+    const wrapped = Buffer.from('wrapped-key');
+    const resolver = jest.fn(async () => dataKey);
+    const data = randomBytes(40);
+
+    const payload = await collect(
+      Readable.from([data]).pipe(
+        new EncryptStream(
+          { kid: 'kek-1', key: dataKey, wrappedKey: wrapped },
+          { segmentSize: 16 },
+        ),
+      ),
+    );
+    const result = await collect(
+      Readable.from([payload]).pipe(new DecryptStream(resolver)),
+    );
+
+    expect(result).toEqual(data);
+    expect(resolver).toHaveBeenCalledWith('kek-1', wrapped);
+  });
+
+  it('should round-trip a payload encrypted in one piece', async () => {
+    const data = randomBytes(100);
+    const payload = encryptPayload(data, { kid: 'v1', key });
+
+    expect(parseHeader(payload)!.header.flags).toBe(0);
+    expect(await decrypt(payload)).toEqual(data);
+  });
+
+  it('should not emit the plaintext of a tampered one-piece payload', async () => {
+    const payload = encryptPayload(randomBytes(100), { kid: 'v1', key });
+    payload[payload.length - 1] ^= 0x01;
+    const stream = new DecryptStream(resolveKey);
+    let emitted = 0;
+    stream.on('data', (chunk: Buffer) => (emitted += chunk.length));
+
+    // Feed the payload byte by byte, so the decipher sees every block before
+    // the tag is checked at the end.
+    Readable.from(Array.from(payload, (byte) => Buffer.from([byte]))).pipe(
+      stream,
+    );
+    const error = await new Promise((resolve) => stream.on('error', resolve));
+
+    expect(error).toBeInstanceOf(DecryptionError);
+    expect(emitted).toBe(0);
+  });
+
+  it('should refuse to buffer a one-piece payload beyond maxBufferedSize', async () => {
+    const payload = encryptPayload(randomBytes(100), { kid: 'v1', key });
+    const stream = new DecryptStream(resolveKey, { maxBufferedSize: 64 });
+    let emitted = 0;
+    stream.on('data', (chunk: Buffer) => (emitted += chunk.length));
+
+    Readable.from([payload]).pipe(stream);
+    const error = await new Promise((resolve) => stream.on('error', resolve));
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(emitted).toBe(0);
+  });
+
+  it('should detect a tampered header', async () => {
+    const payload = encryptPayload(Buffer.from('data'), { kid: 'v1', key });
+    const { header } = parseHeader(payload)!;
+    // Flip a bit of the IV recorded in the header.
+    payload[payload.indexOf(header.nonce)] ^= 0x01;
+
+    await expect(decrypt(payload)).rejects.toThrow(DecryptionError);
+  });
+
+  it('should authenticate the path of a path-bound payload', async () => {
+    const payload = await collect(
+      Readable.from([Buffer.from('data')]).pipe(
+        new EncryptStream({ kid: 'v1', key }, { path: 'bucket/a' }),
+      ),
+    );
+    const decryptAt = (path?: string) =>
+      collect(
+        Readable.from([payload]).pipe(new DecryptStream(resolveKey, { path })),
+      );
+
+    expect(await decryptAt('bucket/a')).toEqual(Buffer.from('data'));
+    await expect(decryptAt('bucket/b')).rejects.toThrow(DecryptionError);
+    await expect(decryptAt()).rejects.toThrow('no path was given');
+  });
+
+  it.each([
+    ['ChaCha20-Poly1305', CipherAlgorithm.CHACHA20_POLY1305, 12],
+    ['XChaCha20-Poly1305', CipherAlgorithm.XCHACHA20_POLY1305, 24],
+  ])(
+    'should record and decrypt with %s',
+    async (_name, cipher, nonceLength) => {
+      const data = randomBytes(100);
+      const single = encryptPayload(data, { kid: 'v1', key }, { cipher });
+      const chunked = await collect(
+        Readable.from([data]).pipe(
+          new EncryptStream({ kid: 'v1', key }, { segmentSize: 16, cipher }),
+        ),
+      );
+
+      expect(parseHeader(single)!.header).toMatchObject({ algorithm: cipher });
+      expect(parseHeader(single)!.header.nonce).toHaveLength(nonceLength);
+      expect(parseHeader(chunked)!.header.nonce).toHaveLength(nonceLength - 5);
+      expect(await decrypt(single)).toEqual(data);
+      expect(await decrypt(chunked)).toEqual(data);
+
+      chunked[chunked.length - 1] ^= 0x01;
+      await expect(decrypt(chunked)).rejects.toThrow(DecryptionError);
+    },
+  );
+
+  it('should encrypt with 12-byte AES-GCM nonces by default', () => {
+    const payload = encryptPayload(Buffer.from('data'), { kid: 'v1', key });
+
+    const { header } = parseHeader(payload)!;
+    expect(header.algorithm).toBe(CipherAlgorithm.AES_256_GCM);
+    expect(header.nonce).toHaveLength(12);
+  });
+
+  it('should decrypt a payload with a 16-byte AES-GCM IV', async () => {
+    const data = Buffer.from('written by an older version');
+    const iv = randomBytes(16);
+    const header = encodeHeader({
+      algorithm: CipherAlgorithm.AES_256_GCM,
+      flags: 0,
+      kid: 'v1',
+      nonce: iv,
+    });
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(header);
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    const payload = Buffer.concat([header, cipher.getAuthTag(), encrypted]);
+
+    expect(await decrypt(payload)).toEqual(data);
+  });
+
+  it('should decrypt a legacy payload', async () => {
+    const data = Buffer.from('legacy data');
+    const iv = randomBytes(16);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    const payload = Buffer.concat([
+      Buffer.from([2]),
+      Buffer.from('v1'),
+      iv,
+      cipher.getAuthTag(),
+      encrypted,
+    ]);
+
+    expect(await decrypt(payload)).toEqual(data);
+
+    payload[payload.length - 1] ^= 0xff;
+    await expect(decrypt(payload)).rejects.toThrow(DecryptionError);
+  });
+});